@@ -0,0 +1,281 @@
+/**
+ * Interface for Jira API client configuration
+ */
+interface JiraClientOptions {
+  readonly baseUrl: string;
+  readonly email: string;
+  readonly apiToken: string;
+}
+
+/**
+ * Interface for the Jira issue details used by the action
+ */
+interface JiraIssue {
+  readonly key: string;
+  readonly summary: string;
+  readonly status: string;
+  readonly issueType: string;
+  readonly assignee: string | undefined;
+}
+
+/**
+ * Interface for the Jira REST API issue response structure
+ */
+interface JiraIssueResponse {
+  readonly key: string;
+  readonly fields: {
+    readonly summary: string;
+    readonly status: { readonly name: string };
+    readonly issuetype: { readonly name: string };
+    readonly assignee: { readonly displayName: string } | null;
+  };
+}
+
+/**
+ * Interface for a workflow transition available on a Jira issue
+ */
+interface JiraTransition {
+  readonly id: string;
+  readonly name: string;
+  readonly toStatus: string;
+}
+
+/**
+ * Interface for the Jira REST API transitions response structure
+ */
+interface JiraTransitionsResponse {
+  readonly transitions: readonly {
+    readonly id: string;
+    readonly name: string;
+    readonly to: { readonly name: string };
+  }[];
+}
+
+/**
+ * Interface for a remote link pointing from a Jira issue to an external resource
+ */
+interface JiraRemoteLink {
+  readonly globalId: string;
+  readonly url: string;
+  readonly title: string;
+  readonly summary?: string;
+  readonly resolved: boolean;
+}
+
+/**
+ * Interface for a comment on a Jira issue
+ */
+interface JiraComment {
+  readonly id: string;
+  readonly body: string;
+}
+
+/**
+ * Interface for the Jira REST API comments page response structure
+ */
+interface JiraCommentsResponse {
+  readonly startAt: number;
+  readonly total: number;
+  readonly comments: readonly JiraComment[];
+}
+
+/**
+ * Interface for the Jira API client
+ */
+interface JiraClient {
+  readonly getIssue: (issueKey: string) => Promise<JiraIssue | undefined>;
+  readonly getTransitions: (issueKey: string) => Promise<readonly JiraTransition[]>;
+  readonly transitionIssue: (issueKey: string, transitionId: string) => Promise<void>;
+  readonly upsertRemoteLink: (issueKey: string, remoteLink: JiraRemoteLink) => Promise<void>;
+  readonly getComments: (issueKey: string) => Promise<readonly JiraComment[]>;
+  readonly addComment: (issueKey: string, body: string) => Promise<void>;
+  readonly updateComment: (issueKey: string, commentId: string, body: string) => Promise<void>;
+}
+
+const JIRA_API_PATH = '/rest/api/2' as const;
+const JIRA_ISSUE_FIELDS = 'summary,status,issuetype,assignee' as const;
+const JIRA_COMMENTS_PAGE_SIZE = 100;
+const GITHUB_ICON_URL = 'https://github.com/favicon.ico' as const;
+const HTTP_NOT_FOUND = 404;
+
+/**
+ * Error thrown when the Jira REST API cannot be reached or responds with an unexpected status
+ */
+class JiraApiError extends Error {
+  public constructor(
+    message: string,
+    public readonly statusCode: number | undefined,
+    public readonly issueKey: string
+  ) {
+    super(message);
+    this.name = 'JiraApiError';
+  }
+}
+
+/**
+ * Maps the Jira REST API issue response to the action's issue structure
+ * @param response - Raw Jira issue response
+ * @returns JiraIssue with the fields used by the action
+ */
+function toJiraIssue(response: JiraIssueResponse): JiraIssue {
+  const { fields } = response;
+
+  return {
+    key: response.key,
+    summary: fields.summary,
+    status: fields.status.name,
+    issueType: fields.issuetype.name,
+    assignee: fields.assignee?.displayName,
+  };
+}
+
+/**
+ * Creates a Jira REST API client using basic authentication
+ * @param options - Jira base URL and API credentials
+ * @returns JiraClient bound to the given Jira instance
+ */
+function createJiraClient(options: JiraClientOptions): JiraClient {
+  const credentials = Buffer.from(`${options.email}:${options.apiToken}`).toString('base64');
+  const headers = {
+    authorization: `Basic ${credentials}`,
+    accept: 'application/json',
+    'content-type': 'application/json',
+  };
+
+  /**
+   * Sends a request to the Jira REST API for a specific issue
+   * @param method - HTTP method
+   * @param issueKey - The Jira issue key
+   * @param path - Path relative to the issue resource, including the query string
+   * @param body - Optional JSON request body
+   * @returns The raw fetch response
+   * @throws JiraApiError when Jira cannot be reached
+   */
+  const requestIssueResource = async (method: string, issueKey: string, path: string, body?: unknown): Promise<Response> => {
+    const url = `${options.baseUrl}${JIRA_API_PATH}/issue/${encodeURIComponent(issueKey)}${path}`;
+    try {
+      return await fetch(url, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+    } catch (error) {
+      // Network failures carry no status code
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new JiraApiError(`Jira API request for ${issueKey} failed: ${errorMessage}`, undefined, issueKey);
+    }
+  };
+
+  /**
+   * Throws a JiraApiError when the response is not successful
+   * @param response - The fetch response
+   * @param issueKey - The Jira issue key the request was made for
+   */
+  const assertSuccessfulResponse = (response: Response, issueKey: string): void => {
+    if (!response.ok) {
+      throw new JiraApiError(`Jira API request for ${issueKey} failed with status ${response.status}`, response.status, issueKey);
+    }
+  };
+
+  /**
+   * Fetches a Jira issue by key
+   * @param issueKey - The Jira issue key
+   * @returns JiraIssue if found, undefined if the issue does not exist
+   */
+  const getIssue = async (issueKey: string): Promise<JiraIssue | undefined> => {
+    const response = await requestIssueResource('GET', issueKey, `?fields=${JIRA_ISSUE_FIELDS}`);
+
+    if (response.status === HTTP_NOT_FOUND) {
+      return undefined;
+    }
+
+    assertSuccessfulResponse(response, issueKey);
+    const body = (await response.json()) as JiraIssueResponse;
+    return toJiraIssue(body);
+  };
+
+  /**
+   * Lists the workflow transitions currently available on a Jira issue
+   * @param issueKey - The Jira issue key
+   * @returns Array of available transitions
+   */
+  const getTransitions = async (issueKey: string): Promise<readonly JiraTransition[]> => {
+    const response = await requestIssueResource('GET', issueKey, '/transitions');
+    assertSuccessfulResponse(response, issueKey);
+
+    const body = (await response.json()) as JiraTransitionsResponse;
+    return body.transitions.map((transition) => ({ id: transition.id, name: transition.name, toStatus: transition.to.name }));
+  };
+
+  /**
+   * Moves a Jira issue through a workflow transition
+   * @param issueKey - The Jira issue key
+   * @param transitionId - ID of the transition to perform
+   */
+  const transitionIssue = async (issueKey: string, transitionId: string): Promise<void> => {
+    const response = await requestIssueResource('POST', issueKey, '/transitions', { transition: { id: transitionId } });
+    assertSuccessfulResponse(response, issueKey);
+  };
+
+  /**
+   * Creates a remote link on a Jira issue, or updates the link with the same global ID
+   * @param issueKey - The Jira issue key
+   * @param remoteLink - The remote link to create or update
+   */
+  const upsertRemoteLink = async (issueKey: string, remoteLink: JiraRemoteLink): Promise<void> => {
+    const response = await requestIssueResource('POST', issueKey, '/remotelink', {
+      globalId: remoteLink.globalId,
+      object: {
+        url: remoteLink.url,
+        title: remoteLink.title,
+        summary: remoteLink.summary,
+        icon: { url16x16: GITHUB_ICON_URL, title: 'GitHub' },
+        status: { resolved: remoteLink.resolved },
+      },
+    });
+    assertSuccessfulResponse(response, issueKey);
+  };
+
+  /**
+   * Lists all comments on a Jira issue, following pagination
+   * @param issueKey - The Jira issue key
+   * @returns Array of issue comments
+   */
+  const getComments = async (issueKey: string): Promise<readonly JiraComment[]> => {
+    const comments: JiraComment[] = [];
+    let hasMorePages = true;
+
+    while (hasMorePages) {
+      const response = await requestIssueResource('GET', issueKey, `/comment?startAt=${comments.length}&maxResults=${JIRA_COMMENTS_PAGE_SIZE}`);
+      assertSuccessfulResponse(response, issueKey);
+
+      const page = (await response.json()) as JiraCommentsResponse;
+      comments.push(...page.comments.map((comment) => ({ id: comment.id, body: comment.body })));
+      hasMorePages = page.comments.length > 0 && comments.length < page.total;
+    }
+
+    return comments;
+  };
+
+  /**
+   * Adds a comment to a Jira issue
+   * @param issueKey - The Jira issue key
+   * @param body - Comment body in Jira wiki markup
+   */
+  const addComment = async (issueKey: string, body: string): Promise<void> => {
+    const response = await requestIssueResource('POST', issueKey, '/comment', { body });
+    assertSuccessfulResponse(response, issueKey);
+  };
+
+  /**
+   * Updates an existing comment on a Jira issue
+   * @param issueKey - The Jira issue key
+   * @param commentId - ID of the comment to update
+   * @param body - Comment body in Jira wiki markup
+   */
+  const updateComment = async (issueKey: string, commentId: string, body: string): Promise<void> => {
+    const response = await requestIssueResource('PUT', issueKey, `/comment/${commentId}`, { body });
+    assertSuccessfulResponse(response, issueKey);
+  };
+
+  return { getIssue, getTransitions, transitionIssue, upsertRemoteLink, getComments, addComment, updateComment };
+}
+
+export type { JiraClientOptions, JiraIssue, JiraTransition, JiraRemoteLink, JiraComment, JiraClient };
+export { JiraApiError, createJiraClient };
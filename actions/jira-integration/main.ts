@@ -1,15 +1,32 @@
 // Generated by Copilot
-import { setFailed, info as logInfo, warning as logWarning, getInput } from '@actions/core';
+import { setFailed, info as logInfo, warning as logWarning, error as logError, getInput, setOutput, summary } from '@actions/core';
 import { context as githubContext, getOctokit } from '@actions/github';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { createJiraClient, JiraApiError, type JiraClient, type JiraIssue } from './jira-client.js';
 
 /**
  * Interface for Jira issue check result
  */
 interface JiraCheckResult {
   hasJira: boolean;
-  jiraIssue?: string;
+  jiraIssues: readonly string[];
+  source?: JiraIssueSource;
+  titleFix?: TitleFix;
 }
 
+/**
+ * Interface for a pull request title the action updated to reference a Jira issue
+ */
+interface TitleFix {
+  readonly jiraIssue: string;
+  readonly title: string;
+}
+
+/**
+ * Type for the parts of a pull request that are searched for Jira issues
+ */
+type JiraIssueSource = 'title' | 'branch' | 'body' | 'commits';
+
 /**
  * Interface for GitHub pull request payload structure
  */
@@ -17,10 +34,43 @@ interface PullRequestPayload {
   readonly title: string;
   readonly head: {
     readonly sha: string;
+    readonly ref: string;
   };
+  readonly base: {
+    readonly ref: string;
+  };
+  readonly body?: string | null;
   readonly user: {
     readonly login: string;
+    readonly type?: string;
   } | null;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  readonly author_association?: string;
+  readonly merged?: boolean;
+  readonly draft?: boolean;
+  readonly labels?: readonly {
+    readonly name: string;
+  }[];
+}
+
+/**
+ * Interface for GitHub merge group payload structure
+ */
+interface MergeGroupPayload {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  readonly head_sha: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  readonly head_ref: string;
+}
+
+/**
+ * Interface for a commit of the pull request
+ */
+interface PullRequestCommit {
+  readonly sha: string;
+  readonly message: string;
+  readonly isMerge: boolean;
+  readonly isBot: boolean;
 }
 
 /**
@@ -32,16 +82,205 @@ interface GitHubContextInfo {
   readonly prNumber: number;
   readonly prTitle: string;
   readonly prSha: string;
+  readonly prBody: string;
+  readonly headRef: string;
+  readonly baseRef: string;
   readonly prAuthor: string | undefined;
+  readonly authorAssociation: string | undefined;
+  readonly isAuthorBot: boolean;
+  readonly prAction: string | undefined;
+  readonly prUrl: string;
+  readonly isMerged: boolean;
+  readonly isDraft: boolean;
+  readonly labels: readonly string[] | undefined;
+  readonly changedLabel: string | undefined;
 }
 
 /**
  * Constants for the action
  */
 const JIRA_STATUS_CONTEXT = 'jira/issue-validation' as const;
-const JIRA_COMMENT_IDENTIFIER = '🎫 **Related Jira Issue**:' as const;
+const DEFAULT_FAILURE_DESCRIPTION = 'Jira issue required in {{sources}} (format: {{example}})' as const;
+const DEFAULT_TITLE_FORMAT = '{{title}} ({{key}})' as const;
+const PREFIX_TITLE_FORMAT = '{{key}}: {{title}}' as const;
+const SAMPLE_TITLE = 'Add login page' as const;
+const TITLE_FORMAT_PLACEHOLDERS: readonly string[] = ['{{key}}', '{{title}}'];
+const JIRA_COMMENT_IDENTIFIER = '🎫 **Related Jira Issue' as const;
+const JIRA_COMMENT_MARKER = '<!-- jira-integration:pr-link -->' as const;
+// Link comments record their Jira issues in the marker, comments without issues carry the plain marker
+const JIRA_COMMENT_MARKER_PATTERN = /<!-- jira-integration:pr-link(?: keys=(\S*))? -->/;
+const JIRA_COMMENT_OUTDATED_MARKER = '<!-- jira-integration:outdated -->' as const;
+const STALE_COMMENT_MODES: readonly string[] = ['keep', 'update', 'delete', 'minimize'];
+const REPORT_MODES: readonly string[] = ['status', 'check-run'];
+const ACTION_MODES: readonly string[] = ['enforce', 'warn', 'off'];
+const KEY_POSITIONS: readonly string[] = ['anywhere', 'prefix', 'scope'];
+const BOOLEAN_INPUT_VALUES: readonly string[] = ['true', 'false'];
+// Characters that make a key part of a longer word, e.g. FOO-MAPCO-123-bar
+const KEY_WORD_CHARACTER = '[\\w-]' as const;
+const WARNING_ANNOTATION_TITLE = 'Jira issue validation' as const;
+// Check run annotations must point at a file, the pull request itself is not one
+const CHECK_RUN_ANNOTATION_PATH = '.github' as const;
+const MINIMIZE_COMMENT_MUTATION = `
+  mutation ($subjectId: ID!) {
+    minimizeComment(input: { subjectId: $subjectId, classifier: OUTDATED }) {
+      minimizedComment {
+        isMinimized
+      }
+    }
+  }
+`;
 const SUCCESS_STATE = 'success' as const;
 const ERROR_STATE = 'error' as const;
+const FAILURE_STATE = 'failure' as const;
+const FAILURE_STATES: readonly string[] = [ERROR_STATE, FAILURE_STATE];
+const SHORT_SHA_LENGTH = 7;
+const SUMMARY_HEADING_LEVEL = 2;
+const SUMMARY_SECTION_HEADING_LEVEL = 3;
+const MAX_STATUS_DESCRIPTION_LENGTH = 140;
+const JIRA_BACKLINK_MODES: readonly string[] = ['none', 'remote-link', 'comment'];
+const JIRA_ISSUE_SOURCE_LABELS: Readonly<Record<JiraIssueSource, string>> = {
+  title: 'PR title',
+  branch: 'branch name',
+  body: 'PR description',
+  commits: 'commit messages',
+};
+const VALIDATION_RULE_LABELS: Readonly<Record<ValidationRule, string>> = {
+  jiraIssue: 'Jira issue referenced',
+  issueExists: 'Jira issue exists',
+  allowedStatus: 'Jira issue status is allowed',
+  allowedIssueType: 'Jira issue type is allowed',
+  commits: 'Every commit references a Jira issue',
+};
+const VALIDATION_RULE_FIX_HINTS: Readonly<Record<ValidationRule, string>> = {
+  jiraIssue: 'Add a Jira issue key in the format shown above to the pull request title.',
+  issueExists: 'Check the Jira issue key for typos and make sure the Jira account used by the action can see the issue.',
+  allowedStatus: 'Move the Jira issue to one of the allowed statuses, or reference another issue.',
+  allowedIssueType: 'Reference a Jira issue of one of the allowed issue types.',
+  commits: 'Reword the commits listed in the job summary so every message references a Jira issue.',
+};
+const RULE_OUTCOME_LABELS: Readonly<Record<RuleOutcome, string>> = {
+  passed: '✅ Passed',
+  failed: '❌ Failed',
+  skipped: '⏭️ Skipped',
+};
+const SUPPORTED_PULL_REQUEST_ACTIONS: readonly string[] = [
+  'opened',
+  'reopened',
+  'edited',
+  'synchronize',
+  'ready_for_review',
+  'closed',
+  'labeled',
+  'unlabeled',
+];
+const LABEL_ACTIONS: readonly string[] = ['labeled', 'unlabeled'];
+const AUTHOR_ASSOCIATIONS: readonly string[] = [
+  'OWNER',
+  'MEMBER',
+  'COLLABORATOR',
+  'CONTRIBUTOR',
+  'FIRST_TIME_CONTRIBUTOR',
+  'FIRST_TIMER',
+  'MANNEQUIN',
+  'NONE',
+];
+const BYPASS_TEAM_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+const HTTP_NOT_FOUND = 404;
+const HTTP_FORBIDDEN = 403;
+const HTTP_UNAUTHORIZED = 401;
+const REGEX_BYPASS_PATTERN = /^\/(.+)\/$/;
+const DEFAULT_JIRA_ISSUE_PATTERN = 'MAPCO-\\d+' as const;
+const DEFAULT_BYPASS_USERS = 'dependabot[bot],mapcolonies-devops' as const;
+const REPOSITORY_CONFIG_PATH = '.github/jira-integration.yml' as const;
+// Organizations share defaults through a repository named .github
+const ORG_CONFIG_REPO = '.github' as const;
+// Inputs that can also be set in the repository config file, and the kind of value each expects
+const REPOSITORY_CONFIG_SCHEMA = {
+  'jira-issue-pattern': 'string',
+  'bypass-users': 'list',
+  'bypass-labels': 'list',
+  'bypass-branches': 'list',
+  'bypass-teams': 'list',
+  'bypass-author-associations': 'list',
+  'bypass-bots': 'boolean',
+  'search-in': 'list',
+  'allowed-statuses': 'list',
+  'allowed-issue-types': 'list',
+  'require-jira-in-commits': 'boolean',
+  'jira-projects': 'projects',
+  'case-insensitive-keys': 'boolean',
+  'require-word-boundaries': 'boolean',
+  'key-position': 'string',
+  'auto-fix-title': 'boolean',
+  'auto-fix-title-format': 'string',
+  mode: 'string',
+} as const satisfies Readonly<Record<string, ConfigValueKind>>;
+const CONFIG_VALUE_KIND_LABELS: Readonly<Record<ConfigValueKind, string>> = {
+  string: 'a string',
+  list: 'a list of strings or a comma-separated string',
+  boolean: 'true or false',
+  projects: 'a list of projects',
+};
+// Fields of a jira-projects entry, and the kind of value each expects
+const JIRA_PROJECT_SCHEMA = {
+  key: 'string',
+  'base-url': 'string',
+  'allowed-statuses': 'list',
+  'allowed-issue-types': 'list',
+} as const satisfies Readonly<Record<string, ConfigValueKind>>;
+const JIRA_PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const PULL_REQUEST_EVENTS: readonly string[] = ['pull_request', 'pull_request_target'];
+// Merge queue branches are named gh-readonly-queue/<base branch>/pr-<number>-<base sha>
+const MERGE_GROUP_PR_NUMBER_PATTERN = /\/pr-(\d+)-[0-9a-f]+$/;
+const PR_NUMBER_PATTERN = /^[1-9]\d*$/;
+const HTTP_URL_PROTOCOLS: readonly string[] = ['http:', 'https:'];
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+
+/**
+ * Type for the kinds of values accepted in the repository config file
+ */
+type ConfigValueKind = 'string' | 'list' | 'boolean' | 'projects';
+
+/**
+ * Type for the action inputs that accept true or false
+ */
+type BooleanInputName =
+  | 'case-insensitive-keys'
+  | 'require-word-boundaries'
+  | 'bypass-bots'
+  | 'require-jira-in-commits'
+  | 'exempt-merge-commits'
+  | 'exempt-bot-commits'
+  | 'warn-comment'
+  | 'auto-fix-title';
+
+/**
+ * Type for the inputs that can be set in the repository config file
+ */
+type RepositoryConfigKey = keyof typeof REPOSITORY_CONFIG_SCHEMA;
+
+/**
+ * Type for the repository config file, with every value in the format of the matching action input
+ */
+type RepositoryConfig = Readonly<Partial<Record<RepositoryConfigKey, string>>>;
+
+/**
+ * Interface for the repository config file, along with the problems found in it
+ */
+interface RepositoryConfigResult {
+  readonly config: RepositoryConfig;
+  readonly errors: readonly InputError[];
+}
+
+/**
+ * Interface for a Jira project as listed in the jira-projects input
+ */
+interface JiraProjectDefinition {
+  readonly key: string;
+  readonly baseUrl?: string;
+  readonly allowedStatusesInput?: string;
+  readonly allowedIssueTypesInput?: string;
+}
 
 /**
  * Interface for action inputs
@@ -50,372 +289,2604 @@ interface ActionInputs {
   readonly token: string;
   readonly jiraBaseUrl: string;
   readonly jiraIssuePattern: string;
+  readonly jiraProjectsInput: string;
+  readonly caseInsensitiveKeys: boolean;
+  readonly requireWordBoundaries: boolean;
+  readonly keyPosition: string;
   readonly bypassLabelsInput: string;
   readonly bypassUsersInput: string;
+  readonly bypassBranchesInput: string;
+  readonly bypassTeamsInput: string;
+  readonly bypassAuthorAssociationsInput: string;
+  readonly bypassBots: boolean;
+  readonly jiraEmail: string;
+  readonly jiraApiToken: string;
+  readonly allowedStatusesInput: string;
+  readonly allowedIssueTypesInput: string;
+  readonly transitionOnOpened: string;
+  readonly transitionOnReadyForReview: string;
+  readonly transitionOnMerged: string;
+  readonly jiraBacklink: string;
+  readonly searchInInput: string;
+  readonly requireJiraInCommits: boolean;
+  readonly exemptMergeCommits: boolean;
+  readonly exemptBotCommits: boolean;
+  readonly commentTemplate: string;
+  readonly staleComment: string;
+  readonly reportAs: string;
+  readonly statusContext: string;
+  readonly failureStateInput: string;
+  readonly successDescription: string;
+  readonly failureDescription: string;
+  readonly bypassDescription: string;
+  readonly mode: string;
+  readonly warnComment: boolean;
+  readonly prNumberInput: string;
+  readonly autoFixTitle: boolean;
+  readonly autoFixTitleFormat: string;
+  readonly booleanInputValues: Readonly<Record<BooleanInputName, string>>;
+}
+
+/**
+ * Interface for rules the linked Jira issue must satisfy
+ */
+interface JiraIssueRules {
+  readonly allowedStatuses: readonly string[];
+  readonly allowedIssueTypes: readonly string[];
+}
+
+/**
+ * Interface for the Jira instance and issue rules that apply to the issues of a Jira project
+ */
+interface JiraProjectSettings {
+  readonly baseUrl: string;
+  readonly rules: JiraIssueRules;
+}
+
+/**
+ * Interface for the settings of the configured Jira projects, and the settings of issues from any other project
+ */
+interface JiraProjects {
+  readonly byKey: ReadonlyMap<string, JiraProjectSettings>;
+  readonly fallback: JiraProjectSettings;
+}
+
+/**
+ * Interface for the commit status reported on the pull request head
+ */
+interface CommitStatusDetails {
+  readonly state: typeof SUCCESS_STATE | typeof ERROR_STATE | typeof FAILURE_STATE;
+  readonly description: string;
+  readonly targetUrl?: string;
+}
+
+/**
+ * Type for the validation rules applied to a pull request
+ */
+type ValidationRule = 'jiraIssue' | 'issueExists' | 'allowedStatus' | 'allowedIssueType' | 'commits';
+
+/**
+ * Type for the outcome of a validation rule
+ */
+type RuleOutcome = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Interface for a failed validation rule and the commit status it results in
+ */
+interface ValidationFailure {
+  readonly rule: ValidationRule;
+  readonly status: CommitStatusDetails;
+}
+
+/**
+ * Interface for the outcome of a validation rule shown in the job summary
+ */
+interface RuleResult {
+  readonly rule: ValidationRule;
+  readonly outcome: RuleOutcome;
+  readonly details: string;
+}
+
+/**
+ * Interface for the result of verifying the detected Jira issues through the Jira API
+ */
+interface JiraVerificationResult {
+  readonly failure?: ValidationFailure;
+  readonly issues: readonly JiraIssue[];
+}
+
+/**
+ * Interface for the Jira link comment posted on the pull request by a previous run
+ */
+interface JiraLinkComment {
+  readonly id: number;
+  readonly nodeId: string;
+  readonly body: string;
+}
+
+/**
+ * Type for the placeholders available in the comment template
+ */
+type CommentPlaceholder = 'key' | 'url' | 'summary' | 'status' | 'assignee' | 'type';
+
+/**
+ * Type for the placeholders available in the success description template
+ */
+type SuccessDescriptionPlaceholder = 'key' | 'keys' | 'count' | 'source';
+
+/**
+ * Type for the placeholders available in the failure description template
+ */
+type FailureDescriptionPlaceholder = 'sources' | 'example' | 'pattern';
+
+/**
+ * Type for the placeholders available in the auto-fix title format
+ */
+type TitleFormatPlaceholder = 'key' | 'title';
+
+/**
+ * Interface for the result of the per-commit Jira issue check
+ */
+interface CommitCheckResult {
+  readonly commitCount: number;
+  readonly offendingCommits: readonly PullRequestCommit[];
 }
 
+/**
+ * Type for the lifecycle state of a pull request
+ */
+type PullRequestState = 'open' | 'merged' | 'closed';
+
 /**
  * Type for bypass check result
  */
 type BypassResult = { bypassed: true; reason: string } | { bypassed: false };
 
 /**
- * Validates required action inputs
- * @param token - GitHub token
- * @param jiraBaseUrl - Jira base URL
- * @returns True if inputs are valid, false otherwise
+ * Interface for everything reported in the job summary
+ */
+interface ValidationReport {
+  readonly bypassResult: BypassResult;
+  readonly jiraResult?: JiraCheckResult;
+  readonly ruleResults: readonly RuleResult[];
+  readonly offendingCommits: readonly PullRequestCommit[];
+  readonly statusDetails?: CommitStatusDetails;
+}
+
+/**
+ * Interface for a problem found in an action input
+ */
+interface InputError {
+  readonly input: string;
+  readonly message: string;
+}
+
+/**
+ * Checks if a value is an absolute http or https URL
+ * @param value - The value to check
+ * @returns True if the value is an http or https URL
  */
-function validateInputs(token: string | undefined, jiraBaseUrl: string): boolean {
-  const hasToken = token !== undefined && token !== '';
-  if (!hasToken) {
-    setFailed('GitHub token is required');
+function isHttpUrl(value: string): boolean {
+  try {
+    return HTTP_URL_PROTOCOLS.includes(new URL(value).protocol);
+  } catch {
     return false;
   }
+}
+
+/**
+ * Removes the trailing slashes of a base URL, so paths can be appended to it
+ * @param baseUrl - The base URL
+ * @returns The base URL without trailing slashes
+ */
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(TRAILING_SLASHES_PATTERN, '');
+}
+
+/**
+ * Compiles a regex pattern to find out whether it is valid
+ * @param pattern - The regex pattern
+ * @returns The reason the pattern does not compile, undefined if it is valid
+ */
+function findRegexError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Checks if a comma-separated list input has an empty entry, e.g. "a,,b" or a trailing comma
+ * @param listInput - Comma-separated string of values
+ * @returns True if any entry of the list is empty
+ */
+function hasEmptyListEntry(listInput: string): boolean {
+  return listInput.trim() !== '' && listInput.split(',').some((value) => value.trim() === '');
+}
+
+/**
+ * Checks if titles fixed with the auto-fix-title format satisfy the key position, using a sample title
+ * @param inputs - Action inputs
+ * @returns True if a fixed sample title passes validation, or if no sample key can be derived from the pattern
+ */
+function fitsKeyPosition(inputs: ActionInputs): boolean {
+  const sampleKey = deriveIssueKeyExample(inputs.jiraIssuePattern);
+  if (!extractJiraIssues(sampleKey, inputs).hasJira) {
+    return true;
+  }
 
-  const hasJiraBaseUrl = jiraBaseUrl !== '';
+  const sampleTitle = renderTemplate<TitleFormatPlaceholder>(inputs.autoFixTitleFormat, { key: sampleKey, title: SAMPLE_TITLE });
+  return extractJiraIssues(sampleTitle, inputs, true).hasJira;
+}
+
+/**
+ * Finds every problem in the action inputs
+ * @param inputs - Action inputs
+ * @returns Array of input errors, empty when all inputs are valid
+ */
+function findInputErrors(inputs: ActionInputs): readonly InputError[] {
+  const errors: InputError[] = [];
+
+  const hasJiraBaseUrl = inputs.jiraBaseUrl !== '';
   if (!hasJiraBaseUrl) {
-    setFailed('Jira base URL is required');
-    return false;
+    errors.push({ input: 'jira-base-url', message: 'Jira base URL is required' });
+  } else if (!isHttpUrl(inputs.jiraBaseUrl)) {
+    errors.push({ input: 'jira-base-url', message: `jira-base-url must be an http or https URL, got "${inputs.jiraBaseUrl}"` });
+  }
+
+  // The pattern is embedded in larger regexes for the matching options, which must compile as well
+  const patternError = findRegexError(inputs.jiraIssuePattern);
+  const keyRegionSource = buildJiraKeyRegionSource(buildJiraKeySource(inputs, true), inputs.keyPosition);
+  const keyRegionError = keyRegionSource !== undefined ? findRegexError(keyRegionSource) : undefined;
+  if (patternError !== undefined) {
+    errors.push({ input: 'jira-issue-pattern', message: `jira-issue-pattern is not a valid regular expression: ${patternError}` });
+  } else if (keyRegionError !== undefined) {
+    errors.push({
+      input: 'jira-issue-pattern',
+      message: `jira-issue-pattern cannot be used with key-position ${inputs.keyPosition}, avoid named groups and backreferences: ${keyRegionError}`,
+    });
+  }
+
+  let jiraProjectDefinitions: readonly JiraProjectDefinition[] = [];
+  try {
+    jiraProjectDefinitions = readJiraProjectDefinitions(inputs.jiraProjectsInput);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    errors.push({ input: 'jira-projects', message: errorMessage });
+  }
+
+  for (const [inputName, value] of Object.entries(inputs.booleanInputValues)) {
+    if (value !== '' && !BOOLEAN_INPUT_VALUES.includes(value.toLowerCase())) {
+      errors.push({ input: inputName, message: `${inputName} must be true or false, got "${value}"` });
+    }
+  }
+
+  const listInputs = [
+    ['bypass-users', inputs.bypassUsersInput],
+    ['bypass-labels', inputs.bypassLabelsInput],
+    ['bypass-branches', inputs.bypassBranchesInput],
+    ['bypass-teams', inputs.bypassTeamsInput],
+    ['bypass-author-associations', inputs.bypassAuthorAssociationsInput],
+    ['allowed-statuses', inputs.allowedStatusesInput],
+    ['allowed-issue-types', inputs.allowedIssueTypesInput],
+    ['search-in', inputs.searchInInput],
+  ] as const;
+  for (const [inputName, listInput] of listInputs) {
+    if (hasEmptyListEntry(listInput)) {
+      errors.push({ input: inputName, message: `${inputName} contains an empty entry, separate values with a single comma` });
+    }
+  }
+
+  // Jira API credentials are optional, but must be supplied together
+  const hasJiraEmail = inputs.jiraEmail !== '';
+  const hasJiraApiToken = inputs.jiraApiToken !== '';
+  if (hasJiraEmail !== hasJiraApiToken) {
+    errors.push({
+      input: hasJiraEmail ? 'jira-api-token' : 'jira-email',
+      message: 'Both jira-email and jira-api-token are required to validate issues through the Jira API',
+    });
+  }
+
+  // Status and issue type rules can only be checked through the Jira API
+  const hasProjectIssueRules = jiraProjectDefinitions.some(
+    (project) => project.allowedStatusesInput !== undefined || project.allowedIssueTypesInput !== undefined
+  );
+  const hasIssueRules = inputs.allowedStatusesInput.trim() !== '' || inputs.allowedIssueTypesInput.trim() !== '' || hasProjectIssueRules;
+  if (hasIssueRules && !hasJiraEmail) {
+    errors.push({ input: 'jira-email', message: 'jira-email and jira-api-token are required when allowed-statuses or allowed-issue-types are set' });
+  }
+
+  // Transitions are performed through the Jira API
+  const hasTransitions = inputs.transitionOnOpened !== '' || inputs.transitionOnReadyForReview !== '' || inputs.transitionOnMerged !== '';
+  if (hasTransitions && !hasJiraEmail) {
+    errors.push({ input: 'jira-email', message: 'jira-email and jira-api-token are required when Jira transitions are configured' });
+  }
+
+  const isKnownBacklinkMode = JIRA_BACKLINK_MODES.includes(inputs.jiraBacklink);
+  if (!isKnownBacklinkMode) {
+    errors.push({ input: 'jira-backlink', message: `jira-backlink must be one of: ${JIRA_BACKLINK_MODES.join(', ')}` });
+  } else if (inputs.jiraBacklink !== 'none' && !hasJiraEmail) {
+    errors.push({ input: 'jira-email', message: 'jira-email and jira-api-token are required when jira-backlink is enabled' });
+  }
+
+  const knownSources = Object.keys(JIRA_ISSUE_SOURCE_LABELS);
+  const searchSources = parseCommaSeparatedList(inputs.searchInInput);
+  const unknownSource = searchSources.find((source) => !knownSources.includes(source));
+  if (searchSources.length === 0) {
+    errors.push({ input: 'search-in', message: `search-in must list at least one of: ${knownSources.join(', ')}` });
+  } else if (unknownSource !== undefined) {
+    errors.push({ input: 'search-in', message: `search-in contains unknown source "${unknownSource}", expected any of: ${knownSources.join(', ')}` });
+  }
+
+  const isKnownKeyPosition = KEY_POSITIONS.includes(inputs.keyPosition);
+  if (!isKnownKeyPosition) {
+    errors.push({ input: 'key-position', message: `key-position must be one of: ${KEY_POSITIONS.join(', ')}` });
+  }
+
+  const isKnownMode = ACTION_MODES.includes(inputs.mode);
+  if (!isKnownMode) {
+    errors.push({ input: 'mode', message: `mode must be one of: ${ACTION_MODES.join(', ')}` });
+  }
+
+  const isKnownFailureState = inputs.failureStateInput === '' || FAILURE_STATES.includes(inputs.failureStateInput);
+  if (!isKnownFailureState) {
+    errors.push({ input: 'failure-state', message: `failure-state must be one of: ${FAILURE_STATES.join(', ')}` });
+  }
+
+  const isKnownReportMode = REPORT_MODES.includes(inputs.reportAs);
+  if (!isKnownReportMode) {
+    errors.push({ input: 'report-as', message: `report-as must be one of: ${REPORT_MODES.join(', ')}` });
+  }
+
+  const isKnownStaleCommentMode = STALE_COMMENT_MODES.includes(inputs.staleComment);
+  if (!isKnownStaleCommentMode) {
+    errors.push({ input: 'stale-comment', message: `stale-comment must be one of: ${STALE_COMMENT_MODES.join(', ')}` });
+  }
+
+  const bypassPatternInputs = [
+    ['bypass-users', inputs.bypassUsersInput],
+    ['bypass-labels', inputs.bypassLabelsInput],
+    ['bypass-branches', inputs.bypassBranchesInput],
+  ] as const;
+  for (const [inputName, patternsInput] of bypassPatternInputs) {
+    const invalidPattern = parseCommaSeparatedList(patternsInput).find((pattern) => !isValidBypassPattern(pattern));
+    if (invalidPattern !== undefined) {
+      errors.push({ input: inputName, message: `${inputName} contains invalid regular expression ${invalidPattern}` });
+    }
+  }
+
+  const invalidBypassTeam = parseCommaSeparatedList(inputs.bypassTeamsInput).find((team) => !BYPASS_TEAM_PATTERN.test(team));
+  if (invalidBypassTeam !== undefined) {
+    errors.push({ input: 'bypass-teams', message: `bypass-teams contains "${invalidBypassTeam}", expected teams in the org/team-slug format` });
+  }
+
+  const unknownAssociation = parseCommaSeparatedList(inputs.bypassAuthorAssociationsInput).find(
+    (association) => !AUTHOR_ASSOCIATIONS.includes(association)
+  );
+  if (unknownAssociation !== undefined) {
+    errors.push({
+      input: 'bypass-author-associations',
+      message: `bypass-author-associations contains unknown association "${unknownAssociation}", expected any of: ${AUTHOR_ASSOCIATIONS.join(', ')}`,
+    });
+  }
+
+  const missingTitlePlaceholder = TITLE_FORMAT_PLACEHOLDERS.find((placeholder) => !inputs.autoFixTitleFormat.includes(placeholder));
+  if (missingTitlePlaceholder !== undefined) {
+    errors.push({ input: 'auto-fix-title-format', message: `auto-fix-title-format must contain ${TITLE_FORMAT_PLACEHOLDERS.join(' and ')}` });
+  }
+
+  // A fixed title must satisfy the key position, otherwise every run would rewrite it again
+  const canCheckTitleFormat =
+    inputs.autoFixTitle && missingTitlePlaceholder === undefined && patternError === undefined && keyRegionError === undefined && isKnownKeyPosition;
+  if (canCheckTitleFormat && !fitsKeyPosition(inputs)) {
+    errors.push({
+      input: 'auto-fix-title-format',
+      message: `auto-fix-title-format must put the Jira issue key where key-position ${inputs.keyPosition} expects it`,
+    });
+  }
+
+  const isValidPrNumber = inputs.prNumberInput === '' || PR_NUMBER_PATTERN.test(inputs.prNumberInput);
+  if (!isValidPrNumber) {
+    errors.push({ input: 'pr-number', message: 'pr-number must be a pull request number' });
   }
 
-  return true;
+  return errors;
 }
 
 /**
- * Extracts GitHub context information from the pull request event
- * @param context - GitHub context
- * @returns GitHubContextInfo or undefined if invalid
+ * Validates the action inputs, reporting every problem as an error annotation that names the input
+ * @param inputs - Action inputs
+ * @param configErrors - Problems found in the repository config file
+ * @returns True if inputs are valid, false otherwise
  */
-function extractContextInfo(context: typeof githubContext): GitHubContextInfo | undefined {
-  const isPullRequestEvent = context.eventName === 'pull_request';
-  if (!isPullRequestEvent) {
-    logWarning('This action is designed to work with pull request events');
-    return undefined;
+function validateInputs(inputs: ActionInputs, configErrors: readonly InputError[]): boolean {
+  const inputErrors = [...configErrors, ...findInputErrors(inputs)];
+  if (inputErrors.length === 0) {
+    return true;
   }
 
-  const hasPullRequestPayload = context.payload.pull_request !== undefined;
-  if (!hasPullRequestPayload) {
-    setFailed('Pull request payload not found in context');
-    return undefined;
+  for (const inputError of inputErrors) {
+    logError(inputError.message, { title: `Invalid ${inputError.input} input` });
   }
 
+  const invalidInputs = [...new Set(inputErrors.map((inputError) => inputError.input))];
+  setFailed(`Invalid action inputs: ${invalidInputs.join(', ')}`);
+  return false;
+}
+
+/**
+ * Builds the context information for a pull request
+ * @param context - GitHub context
+ * @param prNumber - The pull request number
+ * @param pullRequest - The pull request, from the event payload or the GitHub API
+ * @param prAction - The pull request event action, undefined for events that are not pull request events
+ * @param prSha - The commit the result is reported on, defaults to the pull request head
+ * @returns GitHubContextInfo for the pull request
+ */
+function buildContextInfo(
+  context: typeof githubContext,
+  prNumber: number,
+  pullRequest: PullRequestPayload,
+  prAction: string | undefined,
+  prSha = pullRequest.head.sha
+): GitHubContextInfo {
   const { owner, repo } = context.repo;
-  const prNumber = context.issue.number;
-  const pullRequest = context.payload.pull_request as unknown as PullRequestPayload;
-  const prTitle = pullRequest.title;
-  const prSha = pullRequest.head.sha;
-  const prAuthor = pullRequest.user?.login;
+  const changedLabel = context.payload.label as { readonly name: string } | undefined;
 
   return {
     owner,
     repo,
     prNumber,
-    prTitle,
+    prTitle: pullRequest.title,
     prSha,
-    prAuthor,
+    prBody: pullRequest.body ?? '',
+    headRef: pullRequest.head.ref,
+    baseRef: pullRequest.base.ref,
+    prAuthor: pullRequest.user?.login,
+    authorAssociation: pullRequest.author_association,
+    isAuthorBot: pullRequest.user?.type === 'Bot' || pullRequest.user?.login.endsWith('[bot]') === true,
+    prAction,
+    prUrl: `${context.serverUrl}/${owner}/${repo}/pull/${prNumber}`,
+    isMerged: pullRequest.merged === true,
+    isDraft: pullRequest.draft === true,
+    labels: pullRequest.labels?.map((label) => label.name),
+    changedLabel: changedLabel?.name,
   };
 }
 
 /**
- * Checks if the pull request author is in the bypass list
- * @param prAuthor - The author of the pull request
- * @param bypassUsersInput - Comma-separated string of usernames to bypass
- * @returns True if the author is in the bypass list, false otherwise
+ * Fetches a pull request through the GitHub API, for events without a pull request payload
+ * @param octokit - GitHub API client
+ * @param context - GitHub context
+ * @param prNumber - The pull request number
+ * @returns The pull request
+ */
+async function fetchPullRequest(
+  octokit: ReturnType<typeof getOctokit>,
+  context: typeof githubContext,
+  prNumber: number
+): Promise<PullRequestPayload> {
+  logInfo(`Fetching PR #${prNumber} through the GitHub API`);
+  const { data } = await octokit.rest.pulls.get({
+    ...context.repo,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    pull_number: prNumber,
+  });
+
+  return data;
+}
+
+/**
+ * Extracts GitHub context information from a pull_request or pull_request_target event
+ * @param context - GitHub context
+ * @returns GitHubContextInfo or undefined if invalid
+ */
+function extractPullRequestContextInfo(context: typeof githubContext): GitHubContextInfo | undefined {
+  const hasPullRequestPayload = context.payload.pull_request !== undefined;
+  if (!hasPullRequestPayload) {
+    setFailed('Pull request payload not found in context');
+    return undefined;
+  }
+
+  const prAction = context.payload.action;
+  const isSupportedAction = prAction === undefined || SUPPORTED_PULL_REQUEST_ACTIONS.includes(prAction);
+  if (!isSupportedAction) {
+    logWarning(`Pull request action "${prAction}" is not supported by this action`);
+    return undefined;
+  }
+
+  const pullRequest = context.payload.pull_request as unknown as PullRequestPayload;
+  return buildContextInfo(context, context.issue.number, pullRequest, prAction);
+}
+
+/**
+ * Extracts GitHub context information from a merge_group event, reporting on the merge queue commit
+ * @param octokit - GitHub API client
+ * @param context - GitHub context
+ * @returns GitHubContextInfo or undefined if invalid
+ */
+async function extractMergeGroupContextInfo(
+  octokit: ReturnType<typeof getOctokit>,
+  context: typeof githubContext
+): Promise<GitHubContextInfo | undefined> {
+  const mergeGroup = context.payload.merge_group as MergeGroupPayload | undefined;
+  if (mergeGroup === undefined) {
+    setFailed('Merge group payload not found in context');
+    return undefined;
+  }
+
+  const prNumberMatch = MERGE_GROUP_PR_NUMBER_PATTERN.exec(mergeGroup.head_ref);
+  if (prNumberMatch === null) {
+    setFailed(`Could not determine the pull request number from merge group ref "${mergeGroup.head_ref}"`);
+    return undefined;
+  }
+
+  const prNumber = Number(prNumberMatch[1]);
+  const pullRequest = await fetchPullRequest(octokit, context, prNumber);
+  return buildContextInfo(context, prNumber, pullRequest, undefined, mergeGroup.head_sha);
+}
+
+/**
+ * Extracts GitHub context information from a workflow_dispatch event, using the pr-number input
+ * @param octokit - GitHub API client
+ * @param context - GitHub context
+ * @param prNumberInput - The pr-number input
+ * @returns GitHubContextInfo or undefined if invalid
+ */
+async function extractWorkflowDispatchContextInfo(
+  octokit: ReturnType<typeof getOctokit>,
+  context: typeof githubContext,
+  prNumberInput: string
+): Promise<GitHubContextInfo | undefined> {
+  if (prNumberInput === '') {
+    setFailed('pr-number is required for workflow_dispatch events');
+    return undefined;
+  }
+
+  const prNumber = Number(prNumberInput);
+  const pullRequest = await fetchPullRequest(octokit, context, prNumber);
+  return buildContextInfo(context, prNumber, pullRequest, undefined);
+}
+
+/**
+ * Extracts GitHub context information from the triggering event
+ * @param octokit - GitHub API client
+ * @param context - GitHub context
+ * @param inputs - Action inputs
+ * @returns GitHubContextInfo or undefined if invalid
+ */
+async function extractContextInfo(
+  octokit: ReturnType<typeof getOctokit>,
+  context: typeof githubContext,
+  inputs: ActionInputs
+): Promise<GitHubContextInfo | undefined> {
+  if (PULL_REQUEST_EVENTS.includes(context.eventName)) {
+    return extractPullRequestContextInfo(context);
+  }
+
+  if (context.eventName === 'merge_group') {
+    return extractMergeGroupContextInfo(octokit, context);
+  }
+
+  if (context.eventName === 'workflow_dispatch') {
+    return extractWorkflowDispatchContextInfo(octokit, context, inputs.prNumberInput);
+  }
+
+  logWarning('This action is designed to work with pull_request, pull_request_target, merge_group and workflow_dispatch events');
+  return undefined;
+}
+
+/**
+ * Converts a bypass pattern to a regular expression. Patterns wrapped in slashes are regular expressions,
+ * any other pattern must match the whole value, with * and ? as wildcards
+ * @param pattern - The bypass pattern, e.g. `dependabot[bot]`, `*[bot]` or `/^skip-jira/`
+ * @returns RegExp matching the values the pattern covers
+ */
+function toBypassRegex(pattern: string): RegExp {
+  const regexSource = REGEX_BYPASS_PATTERN.exec(pattern)?.[1];
+  if (regexSource !== undefined) {
+    return new RegExp(regexSource);
+  }
+
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replaceAll('*', '.*')
+    .replaceAll('?', '.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks if a bypass pattern can be compiled
+ * @param pattern - The bypass pattern
+ * @returns True if the pattern is a valid glob or regular expression
+ */
+function isValidBypassPattern(pattern: string): boolean {
+  try {
+    toBypassRegex(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if a value matches any of the bypass patterns
+ * @param value - The value to check, e.g. a username, label or branch name
+ * @param bypassPatterns - Array of bypass patterns
+ * @returns True if any pattern matches the value
+ */
+function matchesBypassPattern(value: string, bypassPatterns: readonly string[]): boolean {
+  return bypassPatterns.some((pattern) => toBypassRegex(pattern).test(value));
+}
+
+/**
+ * Checks if the pull request author is in the bypass list
+ * @param prAuthor - The author of the pull request
+ * @param bypassUsersInput - Comma-separated string of username patterns to bypass
+ * @returns True if the author is in the bypass list, false otherwise
+ */
+function isUserBypassed(prAuthor: string, bypassUsersInput: string): boolean {
+  return matchesBypassPattern(prAuthor, parseCommaSeparatedList(bypassUsersInput));
+}
+
+/**
+ * Finds the head or base branch of the pull request that matches the bypass branches
+ * @param contextInfo - GitHub context information
+ * @param bypassBranchesInput - Comma-separated string of branch patterns to bypass
+ * @returns The matching branch name, or undefined if neither branch matches
+ */
+function findBypassBranch(contextInfo: GitHubContextInfo, bypassBranchesInput: string): string | undefined {
+  const bypassBranches = parseCommaSeparatedList(bypassBranchesInput);
+  return [contextInfo.headRef, contextInfo.baseRef].find((branch) => matchesBypassPattern(branch, bypassBranches));
+}
+
+/**
+ * Builds the regex source matching a single Jira issue key
+ * @param inputs - Action inputs
+ * @param isTitle - Whether the key is matched in the pull request title
+ * @returns Regex source for the key, enforcing word boundaries in the title when configured
+ */
+function buildJiraKeySource(inputs: ActionInputs, isTitle: boolean): string {
+  const keySource = `(?:${inputs.jiraIssuePattern})`;
+  // Branch names and commit messages run keys into words, e.g. feature/MAPCO-123-login, so only the title is held to word boundaries
+  return isTitle && inputs.requireWordBoundaries ? `(?<!${KEY_WORD_CHARACTER})${keySource}(?!${KEY_WORD_CHARACTER})` : keySource;
+}
+
+/**
+ * Builds the regex source matching the part of a text where Jira issue keys are allowed to appear
+ * @param keySource - Regex source matching a single Jira issue key
+ * @param keyPosition - Where keys must appear: anywhere, as a "MAPCO-123: ..." prefix or as a "feat(MAPCO-123): ..." scope
+ * @returns Regex source capturing the keys in a "keys" group, undefined when keys can appear anywhere
+ */
+function buildJiraKeyRegionSource(keySource: string, keyPosition: string): string | undefined {
+  // Several keys can be listed, separated by commas, e.g. "MAPCO-1, MAPCO-2: ..."
+  const keyListSource = `(?<keys>${keySource}(?:\\s*,\\s*${keySource})*)`;
+
+  switch (keyPosition) {
+    case 'prefix':
+      return `^\\s*${keyListSource}\\s*:`;
+    case 'scope':
+      return `^\\s*\\w+\\(${keyListSource}\\)!?:`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Finds the part of a text where Jira issue keys are allowed to appear
+ * @param text - The text to search
+ * @param keySource - Regex source matching a single Jira issue key
+ * @param keyPosition - Where keys must appear in the text
+ * @param flags - Flags of the key regex
+ * @returns The keys part of the text, or an empty string when the text does not have the required format
+ */
+function findJiraKeyRegion(text: string, keySource: string, keyPosition: string, flags: string): string {
+  const regionSource = buildJiraKeyRegionSource(keySource, keyPosition);
+  if (regionSource === undefined) {
+    return text;
+  }
+
+  return new RegExp(regionSource, flags).exec(text)?.groups?.keys ?? '';
+}
+
+/**
+ * Extracts all Jira issue IDs from a text using the configured pattern and matching options
+ * @param text - The text to search, e.g. the pull request title
+ * @param inputs - Action inputs
+ * @param isTitle - Whether the text is the pull request title, where the key position and word boundaries apply
+ * @returns JiraCheckResult containing whether Jira issues were found and the deduplicated issue IDs in order of appearance
+ */
+function extractJiraIssues(text: string, inputs: ActionInputs, isTitle = false): JiraCheckResult {
+  const flags = inputs.caseInsensitiveKeys ? 'i' : '';
+  const keySource = buildJiraKeySource(inputs, isTitle);
+  const keyRegion = findJiraKeyRegion(text, keySource, isTitle ? inputs.keyPosition : 'anywhere', flags);
+
+  const regex = new RegExp(keySource, `g${flags}`);
+  const matches = Array.from(keyRegion.matchAll(regex), (match) => match[0]).filter((jiraIssue) => jiraIssue !== '');
+  // Keys matched case-insensitively are normalized to upper case, the way Jira displays them
+  const jiraIssues = [...new Set(inputs.caseInsensitiveKeys ? matches.map((jiraIssue) => jiraIssue.toUpperCase()) : matches)];
+
+  return { hasJira: jiraIssues.length > 0, jiraIssues };
+}
+
+/**
+ * Creates or updates commit status for Jira validation
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param statusDetails - State, description and target URL of the status
+ * @param statusContext - Name of the commit status
+ */
+async function setCommitStatus(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  statusDetails: CommitStatusDetails,
+  statusContext: string
+): Promise<void> {
+  const { owner, repo, prSha } = contextInfo;
+
+  await octokit.rest.repos.createCommitStatus({
+    owner,
+    repo,
+    sha: prSha,
+    state: statusDetails.state,
+    target_url: statusDetails.targetUrl,
+    description: truncateDescription(statusDetails.description),
+    context: statusContext,
+  });
+}
+
+/**
+ * Truncates a commit status description to the length accepted by GitHub
+ * @param description - The status description
+ * @returns Description of at most 140 characters
+ */
+function truncateDescription(description: string): string {
+  if (description.length <= MAX_STATUS_DESCRIPTION_LENGTH) {
+    return description;
+  }
+
+  return `${description.slice(0, MAX_STATUS_DESCRIPTION_LENGTH - 1)}…`;
+}
+
+/**
+ * Creates a completed check run for Jira validation, named like the commit status so branch protection keeps working
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param statusDetails - State, description and target URL of the result
+ * @param failures - Validation failures that occurred
+ * @param checkRunName - Name of the check run
+ */
+async function createCheckRun(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  statusDetails: CommitStatusDetails,
+  failures: readonly ValidationFailure[],
+  checkRunName: string
+): Promise<void> {
+  const { owner, repo, prSha } = contextInfo;
+  const summaryLines = [`**${statusDetails.description}**`];
+  // Failures reported as success in warn mode are only advisory
+  const annotationLevel = statusDetails.state === SUCCESS_STATE ? ('warning' as const) : ('failure' as const);
+
+  if (statusDetails.targetUrl !== undefined) {
+    summaryLines.push('', `Jira issue: ${statusDetails.targetUrl}`);
+  }
+  if (failures.length > 0) {
+    summaryLines.push('', '### How to fix', '', ...failures.map((failure) => `- ${VALIDATION_RULE_FIX_HINTS[failure.rule]}`));
+  }
+
+  await octokit.rest.checks.create({
+    owner,
+    repo,
+    name: checkRunName,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    head_sha: prSha,
+    status: 'completed',
+    conclusion: statusDetails.state === SUCCESS_STATE ? 'success' : 'failure',
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    details_url: statusDetails.targetUrl,
+    output: {
+      title: statusDetails.description,
+      summary: summaryLines.join('\n'),
+      annotations: failures.map((failure) => ({
+        path: CHECK_RUN_ANNOTATION_PATH,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        start_line: 1,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        end_line: 1,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        annotation_level: annotationLevel,
+        title: VALIDATION_RULE_LABELS[failure.rule],
+        message: `${failure.status.description}\n${VALIDATION_RULE_FIX_HINTS[failure.rule]}`,
+      })),
+    },
+  });
+}
+
+/**
+ * Reports the Jira validation result as a commit status or a check run, depending on the report-as input
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param statusDetails - State, description and target URL of the result
+ * @param failures - Validation failures that occurred, explained in check run annotations
+ */
+async function reportValidationResult(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  statusDetails: CommitStatusDetails,
+  failures: readonly ValidationFailure[] = []
+): Promise<void> {
+  if (inputs.reportAs === 'check-run') {
+    await createCheckRun(octokit, contextInfo, statusDetails, failures, inputs.statusContext);
+    return;
+  }
+
+  await setCommitStatus(octokit, contextInfo, statusDetails, inputs.statusContext);
+}
+
+/**
+ * Checks if a value is included in a list, ignoring case
+ * @param value - The value to look for
+ * @param allowedValues - List of allowed values
+ * @returns True if the list is empty or contains the value
+ */
+function isAllowedValue(value: string, allowedValues: readonly string[]): boolean {
+  if (allowedValues.length === 0) {
+    return true;
+  }
+
+  const normalizedValue = value.toLowerCase();
+  return allowedValues.some((allowedValue) => allowedValue.toLowerCase() === normalizedValue);
+}
+
+/**
+ * Describes the searched pull request parts for status descriptions and logs
+ * @param sources - Searched sources
+ * @returns Human-readable list of the sources, e.g. "PR title or branch name"
+ */
+function describeSources(sources: readonly JiraIssueSource[]): string {
+  return sources.map((source) => JIRA_ISSUE_SOURCE_LABELS[source]).join(' or ');
+}
+
+/**
+ * Derives an example Jira issue key from the issue pattern, e.g. "MAPCO-1234" from "MAPCO-\d+"
+ * @param pattern - The regex pattern to match Jira issues
+ * @returns An example key matching the pattern, or the pattern itself when no simple example can be derived
+ */
+function deriveIssueKeyExample(pattern: string): string {
+  const example = pattern
+    .replace(/\\b|^\^|\$$/g, '')
+    // Use the first alternative of a group, e.g. "(MAPCO|PROJ)-\d+" becomes "MAPCO-\d+"
+    .replace(/\((?:\?:)?([^()|]*)(?:\|[^()]*)?\)/g, '$1')
+    .replace(/(?:\\d|\[0-9\])(?:\+|\*|\{\d*,?\d*\})?/g, '1234')
+    .replace(/\[A-Z\](?:\+|\*|\{\d*,?\d*\})?/g, 'ABC');
+
+  const isExample = /^[\w-]+$/.test(example) && new RegExp(pattern).test(example);
+  return isExample ? example : pattern;
+}
+
+/**
+ * Builds the commit status details for the result of a Jira issue check
+ * @param jiraResult - Result of Jira issue check
+ * @param inputs - Action inputs
+ * @param searchSources - Sources that were searched for Jira issues
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns CommitStatusDetails describing the validation outcome
+ */
+function buildValidationStatus(
+  jiraResult: JiraCheckResult,
+  inputs: ActionInputs,
+  searchSources: readonly JiraIssueSource[],
+  jiraProjects: JiraProjects
+): CommitStatusDetails {
+  const [firstJiraIssue] = jiraResult.jiraIssues;
+
+  if (!jiraResult.hasJira || firstJiraIssue === undefined || jiraResult.source === undefined) {
+    const description = renderTemplate<FailureDescriptionPlaceholder>(inputs.failureDescription, {
+      sources: describeSources(searchSources),
+      example: deriveIssueKeyExample(inputs.jiraIssuePattern),
+      pattern: inputs.jiraIssuePattern,
+    });
+    return { state: ERROR_STATE, description };
+  }
+
+  const issueCount = jiraResult.jiraIssues.length;
+  const sourceLabel = JIRA_ISSUE_SOURCE_LABELS[jiraResult.source];
+  const defaultDescription = issueCount === 1 ? `Jira issue found in ${sourceLabel}` : `${issueCount} Jira issues found in ${sourceLabel}`;
+  const description =
+    inputs.successDescription !== ''
+      ? renderTemplate<SuccessDescriptionPlaceholder>(inputs.successDescription, {
+          key: firstJiraIssue,
+          keys: jiraResult.jiraIssues.join(', '),
+          count: String(issueCount),
+          source: sourceLabel,
+        })
+      : defaultDescription;
+
+  return { state: SUCCESS_STATE, description, targetUrl: buildJiraIssueUrl(firstJiraIssue, jiraProjects) };
+}
+
+/**
+ * Confirms that the detected Jira issue exists and satisfies the issue rules
+ * @param jiraIssue - The Jira issue ID
+ * @param issue - The issue fetched from the Jira API, undefined if it was not found
+ * @param rules - Allowed statuses and issue types
+ * @returns ValidationFailure describing the broken rule, or undefined if the issue is valid
+ */
+function verifyJiraIssue(jiraIssue: string, issue: JiraIssue | undefined, rules: JiraIssueRules): ValidationFailure | undefined {
+  if (issue === undefined) {
+    logWarning(`Jira issue ${jiraIssue} was not found`);
+    return { rule: 'issueExists', status: { state: ERROR_STATE, description: `Jira issue ${jiraIssue} does not exist or is not accessible` } };
+  }
+
+  logInfo(`Verified Jira issue ${issue.key}: ${issue.summary} (${issue.status})`);
+
+  if (!isAllowedValue(issue.status, rules.allowedStatuses)) {
+    logWarning(`Jira issue ${issue.key} has status "${issue.status}" which is not allowed`);
+    return {
+      rule: 'allowedStatus',
+      status: {
+        state: ERROR_STATE,
+        description: `Jira issue ${issue.key} is "${issue.status}", expected one of: ${rules.allowedStatuses.join(', ')}`,
+      },
+    };
+  }
+
+  if (!isAllowedValue(issue.issueType, rules.allowedIssueTypes)) {
+    logWarning(`Jira issue ${issue.key} is of type "${issue.issueType}" which is not allowed`);
+    return {
+      rule: 'allowedIssueType',
+      status: {
+        state: ERROR_STATE,
+        description: `Jira issue ${issue.key} is a "${issue.issueType}", expected one of: ${rules.allowedIssueTypes.join(', ')}`,
+      },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Fetches and verifies every detected Jira issue through the Jira API, stopping at the first invalid one
+ * @param jiraClient - Jira API client
+ * @param jiraIssues - The Jira issue IDs
+ * @param jiraProjects - Settings of the configured Jira projects, holding the issue rules of each project
+ * @returns JiraVerificationResult with the first broken rule, if any, and the details of the issues fetched
+ */
+async function verifyJiraIssues(jiraClient: JiraClient, jiraIssues: readonly string[], jiraProjects: JiraProjects): Promise<JiraVerificationResult> {
+  const issues: JiraIssue[] = [];
+
+  for (const jiraIssue of jiraIssues) {
+    const issue = await jiraClient.getIssue(jiraIssue);
+    const failure = verifyJiraIssue(jiraIssue, issue, getJiraProjectSettings(jiraIssue, jiraProjects).rules);
+    if (failure !== undefined || issue === undefined) {
+      return { failure, issues };
+    }
+
+    issues.push(issue);
+  }
+
+  return { issues };
+}
+
+/**
+ * Finds the Jira link comment posted by a previous run, reading comment pages only until it is found
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @returns JiraLinkComment if found, undefined otherwise
+ */
+async function findExistingJiraComment(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo): Promise<JiraLinkComment | undefined> {
+  const { owner, repo, prNumber } = contextInfo;
+  let legacyComment: JiraLinkComment | undefined;
+
+  const commentPages = octokit.paginate.iterator(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: prNumber,
+  });
+
+  for await (const { data: comments } of commentPages) {
+    // The hidden marker identifies the comment no matter which identity posted it
+    const markedComment = comments.find((comment) => JIRA_COMMENT_MARKER_PATTERN.test(comment.body ?? ''));
+    if (markedComment !== undefined) {
+      return { id: markedComment.id, nodeId: markedComment.node_id, body: markedComment.body ?? '' };
+    }
+
+    // Comments posted before the marker was introduced are recognized by author and heading, updating them adds the marker
+    const unmarkedComment = comments.find((comment) => {
+      const isGitHubActionsBot = comment.user?.login === 'github-actions[bot]';
+      const hasJiraIdentifier = comment.body?.includes(JIRA_COMMENT_IDENTIFIER) === true;
+      const isOutdated = comment.body?.includes(JIRA_COMMENT_OUTDATED_MARKER) === true;
+      return isGitHubActionsBot && hasJiraIdentifier && !isOutdated;
+    });
+    legacyComment ??=
+      unmarkedComment !== undefined ? { id: unmarkedComment.id, nodeId: unmarkedComment.node_id, body: unmarkedComment.body ?? '' } : undefined;
+  }
+
+  if (legacyComment !== undefined) {
+    logInfo(`Migrating legacy Jira comment ${legacyComment.id} to the hidden marker format`);
+  }
+
+  return legacyComment;
+}
+
+/**
+ * Replaces the {{placeholder}} tokens of a template, leaving unknown placeholders untouched
+ * @param template - The template
+ * @param values - Value of every placeholder
+ * @returns The rendered template
+ */
+function renderTemplate<TPlaceholder extends string>(template: string, values: Readonly<Record<TPlaceholder, string>>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name as TPlaceholder] : placeholder
+  );
+}
+
+/**
+ * Builds the hidden marker of the Jira link comment, recording the Jira issues the comment is about
+ * @param jiraIssues - The Jira issues the comment links to
+ * @returns The hidden marker
+ */
+function buildJiraCommentMarker(jiraIssues: readonly string[]): string {
+  return `<!-- jira-integration:pr-link keys=${jiraIssues.join(',')} -->`;
+}
+
+/**
+ * Builds the body of the Jira link comment
+ * @param jiraResult - Result of Jira issue check
+ * @param inputs - Action inputs
+ * @param jiraIssueDetails - Issue details fetched from the Jira API, empty when no Jira credentials were supplied
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns Comment body ending with the hidden marker that identifies the comment and records its Jira issues
+ */
+function buildJiraCommentBody(
+  jiraResult: JiraCheckResult,
+  inputs: ActionInputs,
+  jiraIssueDetails: readonly JiraIssue[],
+  jiraProjects: JiraProjects
+): string {
+  const { commentTemplate } = inputs;
+  const { jiraIssues, source, titleFix } = jiraResult;
+  // A title the action fixed is called out, so the author knows where the key came from
+  const titleFixNote = titleFix !== undefined ? `\n_Added ${titleFix.jiraIssue} from the branch name to the PR title_` : '';
+  const findDetails = (jiraIssue: string): JiraIssue | undefined => jiraIssueDetails.find((issue) => issue.key === jiraIssue);
+  const marker = buildJiraCommentMarker(jiraIssues);
+
+  if (commentTemplate !== '') {
+    const renderedIssues = jiraIssues.map((jiraIssue) => {
+      const details = findDetails(jiraIssue);
+      return renderTemplate<CommentPlaceholder>(commentTemplate, {
+        key: jiraIssue,
+        url: buildJiraIssueUrl(jiraIssue, jiraProjects),
+        summary: details?.summary ?? '',
+        status: details?.status ?? '',
+        assignee: details !== undefined ? (details.assignee ?? 'Unassigned') : '',
+        type: details?.issueType ?? '',
+      });
+    });
+
+    return `${renderedIssues.join('\n')}${titleFixNote}\n${marker}`;
+  }
+
+  const heading = jiraIssues.length === 1 ? `${JIRA_COMMENT_IDENTIFIER}**:` : `${JIRA_COMMENT_IDENTIFIER}s**:`;
+  // Issues taken from the title need no explanation, other sources are called out
+  const sourceNote = source !== undefined && source !== 'title' ? ` _(from ${JIRA_ISSUE_SOURCE_LABELS[source]})_` : '';
+
+  if (jiraIssueDetails.length === 0) {
+    const jiraLinks = jiraIssues.map((jiraIssue) => `[${jiraIssue}](${buildJiraIssueUrl(jiraIssue, jiraProjects)})`);
+    return `${heading} ${jiraLinks.join(', ')}${sourceNote}${titleFixNote}\n${marker}`;
+  }
+
+  // Issue details make for long lines, so every issue gets its own list item
+  const jiraListItems = jiraIssues.map((jiraIssue) => {
+    const details = findDetails(jiraIssue);
+    const link = `[${jiraIssue}](${buildJiraIssueUrl(jiraIssue, jiraProjects)})`;
+    return details !== undefined ? `- ${link} - ${details.summary} (${details.status})` : `- ${link}`;
+  });
+  return `${heading}${sourceNote}\n${jiraListItems.join('\n')}${titleFixNote}\n${marker}`;
+}
+
+/**
+ * Checks if an existing Jira link comment refers to the same Jira issues as were detected
+ * @param existingComment - The Jira link comment posted by a previous run
+ * @param jiraResult - Result of Jira issue check
+ * @param inputs - Action inputs
+ * @returns True if the comment references exactly the detected Jira issues
+ */
+function hasSameJiraIssues(existingComment: JiraLinkComment, jiraResult: JiraCheckResult, inputs: ActionInputs): boolean {
+  // The marker records the issues, so keys mentioned in an issue summary are not mistaken for them
+  const recordedKeys = JIRA_COMMENT_MARKER_PATTERN.exec(existingComment.body)?.[1];
+  // Comments without recorded issues, such as those posted by older versions, are compared by the keys in their body
+  const commentIssues =
+    recordedKeys !== undefined ? recordedKeys.split(',').filter((key) => key !== '') : extractJiraIssues(existingComment.body, inputs).jiraIssues;
+  return commentIssues.length === jiraResult.jiraIssues.length && jiraResult.jiraIssues.every((jiraIssue) => commentIssues.includes(jiraIssue));
+}
+
+/**
+ * Deletes or minimizes a Jira link comment that no longer matches the pull request
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param staleComment - The outdated Jira link comment
+ * @param mode - Either "delete" or "minimize"
+ */
+async function retireStaleJiraComment(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  staleComment: JiraLinkComment,
+  mode: string
+): Promise<void> {
+  const { owner, repo } = contextInfo;
+
+  if (mode === 'delete') {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    await octokit.rest.issues.deleteComment({ owner, repo, comment_id: staleComment.id });
+    logInfo(`Deleted stale Jira comment ${staleComment.id}`);
+    return;
+  }
+
+  await octokit.graphql(MINIMIZE_COMMENT_MUTATION, { subjectId: staleComment.nodeId });
+  // Swapping the marker keeps later runs from picking the minimized comment up again
+  await octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    comment_id: staleComment.id,
+    body: `${staleComment.body.replace(JIRA_COMMENT_MARKER_PATTERN, '')}\n${JIRA_COMMENT_OUTDATED_MARKER}`,
+  });
+  logInfo(`Minimized stale Jira comment ${staleComment.id}`);
+}
+
+/**
+ * Handles the Jira link comment of a pull request that no longer references a valid Jira issue
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ */
+async function handleStaleJiraComment(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo, inputs: ActionInputs): Promise<void> {
+  if (inputs.staleComment === 'keep') {
+    return;
+  }
+
+  const staleComment = await findExistingJiraComment(octokit, contextInfo);
+  if (staleComment === undefined) {
+    return;
+  }
+
+  if (inputs.staleComment !== 'update') {
+    await retireStaleJiraComment(octokit, contextInfo, staleComment, inputs.staleComment);
+    return;
+  }
+
+  const { owner, repo } = contextInfo;
+  await octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    comment_id: staleComment.id,
+    body: `${JIRA_COMMENT_IDENTIFIER}**: none, this pull request no longer references a valid Jira issue\n${JIRA_COMMENT_MARKER}`,
+  });
+  logInfo(`Updated stale Jira comment ${staleComment.id}`);
+}
+
+/**
+ * Posts or updates a reminder in place of the Jira link comment when validation fails in warn mode
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param description - Description of what validation would have failed
+ */
+async function postJiraReminderComment(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo, description: string): Promise<void> {
+  const { owner, repo, prNumber } = contextInfo;
+  // The marker lets the Jira link comment take the reminder's place once an issue is referenced
+  const commentBody = `⚠️ **Jira issue validation**: ${description}. This check is advisory for now and will be enforced later.\n${JIRA_COMMENT_MARKER}`;
+
+  const existingComment = await findExistingJiraComment(octokit, contextInfo);
+
+  if (existingComment !== undefined) {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    await octokit.rest.issues.updateComment({ owner, repo, comment_id: existingComment.id, body: commentBody });
+    logInfo(`Updated Jira reminder comment ${existingComment.id}`);
+    return;
+  }
+
+  await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body: commentBody });
+  logInfo('Created Jira reminder comment');
+}
+
+/**
+ * Creates or updates Jira link comment on pull request
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param jiraResult - Result of Jira issue check
+ * @param inputs - Action inputs
+ * @param jiraIssueDetails - Issue details fetched from the Jira API, empty when no Jira credentials were supplied
+ * @param jiraProjects - Settings of the configured Jira projects
+ */
+async function createOrUpdateJiraComment(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  jiraResult: JiraCheckResult,
+  inputs: ActionInputs,
+  jiraIssueDetails: readonly JiraIssue[],
+  jiraProjects: JiraProjects
+): Promise<void> {
+  const { owner, repo, prNumber } = contextInfo;
+  const commentBody = buildJiraCommentBody(jiraResult, inputs, jiraIssueDetails, jiraProjects);
+  const jiraIssuesList = jiraResult.jiraIssues.join(', ');
+
+  let existingComment = await findExistingJiraComment(octokit, contextInfo);
+
+  // A comment about other Jira issues is retired, so the new comment is posted in place of it
+  const isRetiringMode = inputs.staleComment === 'delete' || inputs.staleComment === 'minimize';
+  if (existingComment !== undefined && isRetiringMode && !hasSameJiraIssues(existingComment, jiraResult, inputs)) {
+    await retireStaleJiraComment(octokit, contextInfo, existingComment, inputs.staleComment);
+    existingComment = undefined;
+  }
+
+  if (existingComment !== undefined) {
+    // Update existing comment
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      comment_id: existingComment.id,
+      body: commentBody,
+    });
+    logInfo(`Updated existing Jira comment for issue: ${jiraIssuesList}`);
+  } else {
+    // Create new comment
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+
+      issue_number: prNumber,
+      body: commentBody,
+    });
+    logInfo(`Created new Jira comment for issue: ${jiraIssuesList}`);
+  }
+}
+
+/**
+ * Parses a comma-separated list input
+ * @param listInput - Comma-separated string of values
+ * @returns Array of trimmed, non-empty values
+ */
+function parseCommaSeparatedList(listInput: string): readonly string[] {
+  if (listInput === '') {
+    return [];
+  }
+
+  return listInput
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value !== '');
+}
+
+/**
+ * Checks if PR has any bypass labels that would skip Jira validation
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param bypassLabels - Array of bypass label patterns
+ * @returns True if PR has any bypass labels
+ */
+async function hasBypassLabels(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  bypassLabels: readonly string[]
+): Promise<boolean> {
+  // Early return if no bypass labels configured
+  if (bypassLabels.length === 0) {
+    return false;
+  }
+
+  // The pull request payload already lists the labels as they are after the event
+  const { labels: payloadLabels } = contextInfo;
+  if (payloadLabels !== undefined) {
+    return payloadLabels.some((label) => matchesBypassPattern(label, bypassLabels));
+  }
+
+  const { owner, repo, prNumber } = contextInfo;
+
+  // Fetch PR labels from GitHub API, page by page until a bypass label shows up
+  const labelPages = octokit.paginate.iterator(octokit.rest.issues.listLabelsOnIssue, {
+    owner,
+    repo,
+    issue_number: prNumber,
+  });
+
+  for await (const { data: labels } of labelPages) {
+    const prLabels = labels.map((label) => label.name);
+
+    // Check if any PR label matches bypass labels
+    const hasBypassLabel = prLabels.some((label) => matchesBypassPattern(label, bypassLabels));
+    if (hasBypassLabel) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks if an error from the GitHub API is a 404 response
+ * @param error - The error thrown by the GitHub API client
+ * @returns True if the API responded with 404
+ */
+function isNotFoundError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'status' in error && error.status === HTTP_NOT_FOUND;
+}
+
+/**
+ * Checks if an error from the GitHub API is a 403 response, e.g. when the token lacks a permission
+ * @param error - The error thrown by the GitHub API client
+ * @returns True if the API responded with 403
+ */
+function isForbiddenError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'status' in error && error.status === HTTP_FORBIDDEN;
+}
+
+/**
+ * Finds the first bypass team the pull request author is an active member of
+ * @param octokit - GitHub API client
+ * @param prAuthor - The author of the pull request
+ * @param bypassTeams - Array of teams in the org/team-slug format
+ * @returns The matching team, or undefined if the author is in none of them
+ */
+async function findBypassTeam(octokit: ReturnType<typeof getOctokit>, prAuthor: string, bypassTeams: readonly string[]): Promise<string | undefined> {
+  for (const team of bypassTeams) {
+    const [org, teamSlug] = team.split('/') as [string, string];
+
+    try {
+      const { data: membership } = await octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        team_slug: teamSlug,
+        username: prAuthor,
+      });
+      // Pending memberships are invitations the author has not accepted yet
+      if (membership.state === 'active') {
+        return team;
+      }
+    } catch (error) {
+      // The API responds with 404 when the author is not a member of the team
+      if (isNotFoundError(error)) {
+        continue;
+      }
+
+      // A team the token cannot read only rules out this team, the other bypass rules still apply
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const permissionHint = isForbiddenError(error) ? ', the token needs the read:org scope' : '';
+      logWarning(`Could not check bypass-teams membership in ${team}${permissionHint}: ${errorMessage}`);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks if a labeled or unlabeled event changed a bypass label, the only labels that affect the result
+ * @param contextInfo - GitHub context information
+ * @param bypassLabelsInput - Comma-separated string of labels to bypass
+ * @returns True if the added or removed label is a bypass label
+ */
+function isBypassLabelChange(contextInfo: GitHubContextInfo, bypassLabelsInput: string): boolean {
+  const { changedLabel } = contextInfo;
+  return changedLabel !== undefined && matchesBypassPattern(changedLabel, parseCommaSeparatedList(bypassLabelsInput));
+}
+
+/**
+ * Checks if Jira validation should be bypassed for this PR
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @returns BypassResult indicating if validation should be bypassed and why
+ */
+async function checkBypass(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo, inputs: ActionInputs): Promise<BypassResult> {
+  const { prAuthor, authorAssociation } = contextInfo;
+  // Check if PR author is in bypass list
+  const isPrAuthorBypassed = prAuthor !== undefined && isUserBypassed(prAuthor, inputs.bypassUsersInput);
+  if (isPrAuthorBypassed) {
+    return { bypassed: true, reason: 'Bypassed validation for user' };
+  }
+
+  // Check if PR author is a bot account
+  if (inputs.bypassBots && contextInfo.isAuthorBot) {
+    return { bypassed: true, reason: 'Bypassed validation for bot account' };
+  }
+
+  // Check if PR author has a bypass association with the repository
+  const bypassAssociations = parseCommaSeparatedList(inputs.bypassAuthorAssociationsInput);
+  const isAssociationBypassed = authorAssociation !== undefined && bypassAssociations.includes(authorAssociation);
+  if (isAssociationBypassed) {
+    return { bypassed: true, reason: `Bypassed validation for author association ${authorAssociation}` };
+  }
+
+  // Check if the head or base branch is a bypass branch
+  const bypassBranch = findBypassBranch(contextInfo, inputs.bypassBranchesInput);
+  if (bypassBranch !== undefined) {
+    return { bypassed: true, reason: `Bypassed validation for branch ${bypassBranch}` };
+  }
+
+  // Check if PR author is a member of a bypass team
+  const bypassTeams = parseCommaSeparatedList(inputs.bypassTeamsInput);
+  const bypassTeam = prAuthor !== undefined ? await findBypassTeam(octokit, prAuthor, bypassTeams) : undefined;
+  if (bypassTeam !== undefined) {
+    return { bypassed: true, reason: `Bypassed validation for team ${bypassTeam}` };
+  }
+
+  // Check if PR has bypass labels
+  const bypassLabels = parseCommaSeparatedList(inputs.bypassLabelsInput);
+  const prHasBypassLabels = await hasBypassLabels(octokit, contextInfo, bypassLabels);
+  if (prHasBypassLabels) {
+    return { bypassed: true, reason: 'Bypassed validation due to label' };
+  }
+
+  return { bypassed: false };
+}
+
+/**
+ * Overrides the state of a failed validation with the configured failure state
+ * @param statusDetails - Status details of the failed validation
+ * @param inputs - Action inputs
+ * @returns CommitStatusDetails with the configured failure state, unchanged when no failure state is configured
+ */
+function applyFailureState(statusDetails: CommitStatusDetails, inputs: ActionInputs): CommitStatusDetails {
+  if (inputs.failureStateInput === '') {
+    return statusDetails;
+  }
+
+  return { ...statusDetails, state: inputs.failureStateInput as CommitStatusDetails['state'] };
+}
+
+/**
+ * Turns a failed validation into a successful status carrying a warning, for warn mode
+ * @param statusDetails - Status details of the failed validation
+ * @returns CommitStatusDetails with success state and a warning description
+ */
+function toWarningStatus(statusDetails: CommitStatusDetails): CommitStatusDetails {
+  return { ...statusDetails, state: SUCCESS_STATE, description: `Warning: ${statusDetails.description}` };
+}
+
+/**
+ * Reports success for bypassed validation
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param bypassResult - Result of bypass check
+ */
+async function setBypassedStatus(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  bypassResult: BypassResult & { bypassed: true }
+): Promise<void> {
+  const description = renderTemplate<'reason'>(inputs.bypassDescription, { reason: bypassResult.reason });
+  await reportValidationResult(octokit, contextInfo, inputs, { state: SUCCESS_STATE, description });
+}
+
+/**
+ * Resolves the Jira transition configured for the pull request event
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @returns Name of the transition or target status, undefined if none applies
+ */
+function resolveTransitionTarget(contextInfo: GitHubContextInfo, inputs: ActionInputs): string | undefined {
+  const { prAction, isDraft, isMerged } = contextInfo;
+
+  let target = '';
+  const isOpenedEvent = prAction === 'opened' || prAction === 'reopened';
+  // Draft pull requests are not ready for review yet
+  if (isOpenedEvent && !isDraft) {
+    target = inputs.transitionOnOpened;
+  } else if (prAction === 'ready_for_review') {
+    target = inputs.transitionOnReadyForReview;
+  } else if (prAction === 'closed' && isMerged) {
+    target = inputs.transitionOnMerged;
+  }
+
+  return target !== '' ? target : undefined;
+}
+
+/**
+ * Moves a Jira issue through the transition matching the given name or target status
+ * @param jiraClient - Jira API client
+ * @param jiraIssue - The Jira issue ID
+ * @param target - Name of the transition or of the status it leads to
+ */
+async function transitionJiraIssue(jiraClient: JiraClient, jiraIssue: string, target: string): Promise<void> {
+  const normalizedTarget = target.toLowerCase();
+  const transitions = await jiraClient.getTransitions(jiraIssue);
+  const transition = transitions.find(
+    (candidate) => candidate.name.toLowerCase() === normalizedTarget || candidate.toStatus.toLowerCase() === normalizedTarget
+  );
+
+  if (transition === undefined) {
+    logWarning(`No transition to "${target}" is available for Jira issue ${jiraIssue}`);
+    return;
+  }
+
+  await jiraClient.transitionIssue(jiraIssue, transition.id);
+  logInfo(`Transitioned Jira issue ${jiraIssue} to "${transition.toStatus}"`);
+}
+
+/**
+ * Applies the Jira transition configured for the pull request event, if any
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param jiraClient - Jira API client, undefined when no Jira credentials were supplied
+ * @param jiraIssue - The Jira issue ID
+ */
+async function applyConfiguredTransition(
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  jiraClient: JiraClient | undefined,
+  jiraIssue: string
+): Promise<void> {
+  const target = resolveTransitionTarget(contextInfo, inputs);
+  if (target === undefined || jiraClient === undefined) {
+    return;
+  }
+
+  await transitionJiraIssue(jiraClient, jiraIssue, target);
+}
+
+/**
+ * Gets the lifecycle state of the pull request
+ * @param contextInfo - GitHub context information
+ * @returns PullRequestState of the pull request
+ */
+function getPullRequestState(contextInfo: GitHubContextInfo): PullRequestState {
+  if (contextInfo.prAction !== 'closed') {
+    return 'open';
+  }
+
+  return contextInfo.isMerged ? 'merged' : 'closed';
+}
+
+/**
+ * Creates or updates the Jira comment linking back to the pull request
+ * @param jiraClient - Jira API client
+ * @param contextInfo - GitHub context information
+ * @param jiraIssue - The Jira issue ID
+ * @param state - Lifecycle state of the pull request
+ */
+async function syncJiraBacklinkComment(
+  jiraClient: JiraClient,
+  contextInfo: GitHubContextInfo,
+  jiraIssue: string,
+  state: PullRequestState
+): Promise<void> {
+  const { owner, repo, prNumber, prTitle, prUrl } = contextInfo;
+  // Jira wiki markup link, the "|url]" suffix identifies the comment on later runs
+  const prLink = `|${prUrl}]`;
+  // The title stays outside the link, a "|" or "]" in it would break the link markup
+  const commentBody = `GitHub pull request [${owner}/${repo}#${prNumber}${prLink} is ${state}: ${prTitle}`;
+
+  const comments = await jiraClient.getComments(jiraIssue);
+  const existingComment = comments.find((comment) => comment.body.includes(prLink));
+
+  if (existingComment === undefined) {
+    await jiraClient.addComment(jiraIssue, commentBody);
+    logInfo(`Created Jira comment linking ${jiraIssue} to PR #${prNumber}`);
+    return;
+  }
+
+  if (existingComment.body !== commentBody) {
+    await jiraClient.updateComment(jiraIssue, existingComment.id, commentBody);
+    logInfo(`Updated Jira comment linking ${jiraIssue} to PR #${prNumber}`);
+  }
+}
+
+/**
+ * Links the Jira issue back to the pull request using a remote link or a comment
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param jiraClient - Jira API client, undefined when no Jira credentials were supplied
+ * @param jiraIssue - The Jira issue ID
+ */
+async function syncJiraBacklink(
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  jiraClient: JiraClient | undefined,
+  jiraIssue: string
+): Promise<void> {
+  if (inputs.jiraBacklink === 'none' || jiraClient === undefined) {
+    return;
+  }
+
+  const state = getPullRequestState(contextInfo);
+
+  if (inputs.jiraBacklink === 'comment') {
+    await syncJiraBacklinkComment(jiraClient, contextInfo, jiraIssue, state);
+    return;
+  }
+
+  const { owner, repo, prNumber, prTitle, prUrl } = contextInfo;
+  // The pull request URL is the global ID, so Jira updates the same link on every run
+  await jiraClient.upsertRemoteLink(jiraIssue, {
+    globalId: prUrl,
+    url: prUrl,
+    title: `PR #${prNumber}: ${prTitle}`,
+    summary: `${owner}/${repo} pull request (${state})`,
+    resolved: state !== 'open',
+  });
+  logInfo(`Linked Jira issue ${jiraIssue} to PR #${prNumber} (${state})`);
+}
+
+/**
+ * Parses the pull request parts to search for Jira issues
+ * @param inputs - Action inputs
+ * @returns Array of sources in search order
+ */
+function parseSearchSources(inputs: ActionInputs): readonly JiraIssueSource[] {
+  return parseCommaSeparatedList(inputs.searchInInput) as readonly JiraIssueSource[];
+}
+
+/**
+ * Lists every commit in the pull request
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @returns Array of pull request commits
+ */
+async function listPullRequestCommits(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo): Promise<readonly PullRequestCommit[]> {
+  const { owner, repo, prNumber } = contextInfo;
+
+  const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+    owner,
+    repo,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    pull_number: prNumber,
+  });
+
+  return commits.map((commit) => ({
+    sha: commit.sha,
+    message: commit.commit.message,
+    isMerge: commit.parents.length > 1,
+    isBot: commit.author?.type === 'Bot' || commit.author?.login.endsWith('[bot]') === true,
+  }));
+}
+
+/**
+ * Gets the first line of a commit message
+ * @param commit - The pull request commit
+ * @returns The commit subject
+ */
+function getCommitSubject(commit: PullRequestCommit): string {
+  return commit.message.split('\n')[0] ?? '';
+}
+
+/**
+ * Escapes text for use inside the HTML of the job summary
+ * @param text - Raw text
+ * @returns HTML-safe text
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Checks that every non-exempt commit in the pull request references a Jira issue
+ * @param commits - The commits of the pull request
+ * @param inputs - Action inputs
+ * @returns CommitCheckResult listing the commits without a Jira issue
+ */
+function verifyCommitMessages(commits: readonly PullRequestCommit[], inputs: ActionInputs): CommitCheckResult {
+  const offendingCommits = commits.filter((commit) => {
+    const isExempt = (inputs.exemptMergeCommits && commit.isMerge) || (inputs.exemptBotCommits && commit.isBot);
+    return !isExempt && !extractJiraIssues(commit.message, inputs).hasJira;
+  });
+
+  if (offendingCommits.length === 0) {
+    logInfo(`All ${commits.length} commits reference a Jira issue`);
+  }
+
+  for (const commit of offendingCommits) {
+    logWarning(`Commit ${commit.sha} does not reference a Jira issue: ${getCommitSubject(commit)}`);
+  }
+
+  return { commitCount: commits.length, offendingCommits };
+}
+
+/**
+ * Builds the validation failure for commits that do not reference a Jira issue
+ * @param commitCheck - Result of the per-commit Jira issue check
+ * @param jiraIssuePattern - The regex pattern to match Jira issues
+ * @returns ValidationFailure, or undefined if every commit is valid
+ */
+function buildCommitFailure(commitCheck: CommitCheckResult, jiraIssuePattern: string): ValidationFailure | undefined {
+  const { commitCount, offendingCommits } = commitCheck;
+  if (offendingCommits.length === 0) {
+    return undefined;
+  }
+
+  return {
+    rule: 'commits',
+    status: {
+      state: FAILURE_STATE,
+      description: `${offendingCommits.length} of ${commitCount} commits do not reference a Jira issue (format: ${deriveIssueKeyExample(jiraIssuePattern)})`,
+    },
+  };
+}
+
+/**
+ * Lists the validation rules that apply with the given configuration, in the order they are checked
+ * @param inputs - Action inputs
+ * @param jiraProjects - Settings of the configured Jira projects, holding the issue rules of each project
+ * @param jiraClient - Jira API client, undefined when no Jira credentials were supplied
+ * @returns Array of applied validation rules
+ */
+function listAppliedRules(inputs: ActionInputs, jiraProjects: JiraProjects, jiraClient: JiraClient | undefined): readonly ValidationRule[] {
+  const appliedRules: ValidationRule[] = ['jiraIssue'];
+  // A rule applies when any project sets it
+  const projectRules = [jiraProjects.fallback, ...jiraProjects.byKey.values()].map((project) => project.rules);
+
+  if (jiraClient !== undefined) {
+    appliedRules.push('issueExists');
+  }
+  if (projectRules.some((rules) => rules.allowedStatuses.length > 0)) {
+    appliedRules.push('allowedStatus');
+  }
+  if (projectRules.some((rules) => rules.allowedIssueTypes.length > 0)) {
+    appliedRules.push('allowedIssueType');
+  }
+  if (inputs.requireJiraInCommits) {
+    appliedRules.push('commits');
+  }
+
+  return appliedRules;
+}
+
+/**
+ * Resolves the outcome of every applied validation rule
+ * @param appliedRules - Validation rules that apply, in the order they are checked
+ * @param failures - Validation failures that occurred
+ * @returns Array of rule results, issue rules after a failed issue rule are skipped
+ */
+function buildRuleResults(appliedRules: readonly ValidationRule[], failures: readonly ValidationFailure[]): readonly RuleResult[] {
+  let hasIssueFailure = false;
+
+  return appliedRules.map((rule) => {
+    const failure = failures.find((candidate) => candidate.rule === rule);
+    // Issue rules are checked one after the other, the commit rule is checked on its own
+    const isIssueRule = rule !== 'commits';
+
+    if (failure !== undefined) {
+      hasIssueFailure = hasIssueFailure || isIssueRule;
+      return { rule, outcome: 'failed', details: failure.status.description };
+    }
+
+    if (isIssueRule && hasIssueFailure) {
+      return { rule, outcome: 'skipped', details: 'Not checked after an earlier failure' };
+    }
+
+    return { rule, outcome: 'passed', details: '' };
+  });
+}
+
+/**
+ * Formats the detected Jira issues for the job summary
+ * @param jiraResult - Result of Jira issue check, undefined when the issues were not searched
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns HTML listing the linked Jira issues and where they were found
+ */
+function formatJiraIssuesForSummary(jiraResult: JiraCheckResult | undefined, jiraProjects: JiraProjects): string {
+  if (jiraResult === undefined) {
+    return 'Not searched';
+  }
+
+  if (!jiraResult.hasJira || jiraResult.source === undefined) {
+    return 'None found';
+  }
+
+  const jiraLinks = jiraResult.jiraIssues.map((jiraIssue) => `<a href="${buildJiraIssueUrl(jiraIssue, jiraProjects)}">${escapeHtml(jiraIssue)}</a>`);
+  return `${jiraLinks.join(', ')} (from ${JIRA_ISSUE_SOURCE_LABELS[jiraResult.source]})`;
+}
+
+/**
+ * Writes the validation report to the job summary
+ * @param contextInfo - GitHub context information
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @param report - Everything to report about this run
+ */
+async function writeValidationSummary(contextInfo: GitHubContextInfo, jiraProjects: JiraProjects, report: ValidationReport): Promise<void> {
+  const { owner, repo, prNumber, prTitle, prUrl } = contextInfo;
+  const { bypassResult, statusDetails, ruleResults, offendingCommits } = report;
+
+  const overviewRows = [
+    [{ data: 'Pull request', header: true }, `<a href="${prUrl}">${owner}/${repo}#${prNumber}</a>: ${escapeHtml(prTitle)}`],
+    [{ data: 'Jira issues', header: true }, formatJiraIssuesForSummary(report.jiraResult, jiraProjects)],
+    [{ data: 'Bypassed', header: true }, bypassResult.bypassed ? `Yes, ${escapeHtml(bypassResult.reason)}` : 'No'],
+  ];
+  if (statusDetails !== undefined) {
+    overviewRows.push([{ data: 'Result', header: true }, `${statusDetails.state}: ${escapeHtml(statusDetails.description)}`]);
+  }
+
+  summary.addHeading('Jira issue validation', SUMMARY_HEADING_LEVEL).addTable(overviewRows);
+
+  if (ruleResults.length > 0) {
+    const ruleRows = ruleResults.map((ruleResult) => [
+      VALIDATION_RULE_LABELS[ruleResult.rule],
+      RULE_OUTCOME_LABELS[ruleResult.outcome],
+      escapeHtml(ruleResult.details),
+    ]);
+    summary.addHeading('Rules', SUMMARY_SECTION_HEADING_LEVEL).addTable([
+      [
+        { data: 'Rule', header: true },
+        { data: 'Result', header: true },
+        { data: 'Details', header: true },
+      ],
+      ...ruleRows,
+    ]);
+  }
+
+  if (offendingCommits.length > 0) {
+    const commitRows = offendingCommits.map((commit) => [
+      `<code>${commit.sha.slice(0, SHORT_SHA_LENGTH)}</code>`,
+      escapeHtml(getCommitSubject(commit)),
+    ]);
+    summary.addHeading('Commits without a Jira issue', SUMMARY_SECTION_HEADING_LEVEL).addTable([
+      [
+        { data: 'Commit', header: true },
+        { data: 'Message', header: true },
+      ],
+      ...commitRows,
+    ]);
+  }
+
+  await summary.write();
+}
+
+/**
+ * Reads the text of a pull request part to search for Jira issues
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param source - The pull request part to read
+ * @param commits - The commits of the pull request when they were already listed, listed on demand otherwise
+ * @returns The text of the pull request part
+ */
+async function readSourceText(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  source: JiraIssueSource,
+  commits?: readonly PullRequestCommit[]
+): Promise<string> {
+  switch (source) {
+    case 'title':
+      return contextInfo.prTitle;
+    case 'branch':
+      return contextInfo.headRef;
+    case 'body':
+      return contextInfo.prBody;
+    case 'commits':
+      return (commits ?? (await listPullRequestCommits(octokit, contextInfo))).map((commit) => commit.message).join('\n');
+  }
+}
+
+/**
+ * Searches the configured pull request parts for Jira issues, in order, using the first part that references any
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param commits - The commits of the pull request when they were already listed, listed on demand otherwise
+ * @returns JiraCheckResult including the source the issues were found in
+ */
+async function detectJiraIssues(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  commits?: readonly PullRequestCommit[]
+): Promise<JiraCheckResult> {
+  for (const source of parseSearchSources(inputs)) {
+    const sourceText = await readSourceText(octokit, contextInfo, source, commits);
+    // The key position and word boundaries describe the title format, the other parts can reference issues anywhere
+    const jiraResult = extractJiraIssues(sourceText, inputs, source === 'title');
+
+    if (jiraResult.hasJira) {
+      return { ...jiraResult, source };
+    }
+  }
+
+  return { hasJira: false, jiraIssues: [] };
+}
+
+/**
+ * Inserts the Jira issue referenced by the head branch name into the pull request title
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @returns TitleFix describing the new title, or undefined if the branch name does not reference a Jira issue or the new title would still fail
+ */
+async function fixPullRequestTitle(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs
+): Promise<TitleFix | undefined> {
+  const [jiraIssue] = extractJiraIssues(contextInfo.headRef, inputs).jiraIssues;
+  if (jiraIssue === undefined) {
+    logInfo(`Branch ${contextInfo.headRef} does not reference a Jira issue, leaving the PR title as is`);
+    return undefined;
+  }
+
+  const title = renderTemplate<TitleFormatPlaceholder>(inputs.autoFixTitleFormat, { key: jiraIssue, title: contextInfo.prTitle });
+  if (!extractJiraIssues(title, inputs, true).hasJira) {
+    logWarning(`PR title "${title}" would still fail validation, leaving the PR title as is`);
+    return undefined;
+  }
+
+  await octokit.rest.pulls.update({
+    owner: contextInfo.owner,
+    repo: contextInfo.repo,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    pull_number: contextInfo.prNumber,
+    title,
+  });
+  logInfo(`Updated PR title to reference ${jiraIssue}: "${title}"`);
+
+  return { jiraIssue, title };
+}
+
+/**
+ * Handles a closed pull request by updating its Jira back-link and transitioning its Jira issue when it was merged
+ * @param octokit - GitHub API client
+ * @param contextInfo - GitHub context information
+ * @param inputs - Action inputs
+ * @param jiraClient - Jira API client, undefined when no Jira credentials were supplied
+ * @param jiraProjects - Settings of the configured Jira projects
+ */
+async function processClosedPullRequest(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  jiraClient: JiraClient | undefined,
+  jiraProjects: JiraProjects
+): Promise<void> {
+  const jiraResult = await detectJiraIssues(octokit, contextInfo, inputs);
+  setJiraIssueOutputs(jiraResult, jiraProjects);
+
+  if (!jiraResult.hasJira) {
+    logInfo('No Jira issue found in closed PR, skipping Jira integration');
+    return;
+  }
+
+  for (const jiraIssue of jiraResult.jiraIssues) {
+    await syncJiraBacklink(contextInfo, inputs, jiraClient, jiraIssue);
+  }
+
+  if (!contextInfo.isMerged) {
+    logInfo('Pull request was closed without merging, skipping Jira transition');
+    return;
+  }
+
+  for (const jiraIssue of jiraResult.jiraIssues) {
+    await applyConfiguredTransition(contextInfo, inputs, jiraClient, jiraIssue);
+  }
+}
+
+/**
+ * Exposes the detected Jira issues as action outputs
+ * @param jiraResult - Result of Jira issue check
+ * @param jiraProjects - Settings of the configured Jira projects
  */
-function isUserBypassed(prAuthor: string, bypassUsersInput: string): boolean {
-  if (!bypassUsersInput.trim()) {
-    return false;
-  }
-
-  const bypassUsers = bypassUsersInput.split(',').map((user) => user.trim());
+function setJiraIssueOutputs(jiraResult: JiraCheckResult, jiraProjects: JiraProjects): void {
+  const [firstJiraIssue] = jiraResult.jiraIssues;
 
-  return bypassUsers.includes(prAuthor);
+  setOutput('jira-issue', firstJiraIssue ?? '');
+  setOutput('jira-issues', JSON.stringify(jiraResult.jiraIssues));
+  setOutput('jira-url', firstJiraIssue !== undefined ? buildJiraIssueUrl(firstJiraIssue, jiraProjects) : '');
 }
 
 /**
- * Extracts Jira issue ID from PR title using regex pattern
- * @param title - The pull request title
- * @param pattern - The regex pattern to match Jira issues
- * @returns JiraCheckResult containing whether Jira issue was found and the issue ID
+ * Exposes the bypass decision as action outputs
+ * @param bypassResult - Result of bypass check
  */
-function extractJiraIssue(title: string, pattern: string): JiraCheckResult {
-  const regex = new RegExp(pattern);
-  const match = title.match(regex);
+function setBypassOutputs(bypassResult: BypassResult): void {
+  setOutput('bypassed', String(bypassResult.bypassed));
+  setOutput('bypass-reason', bypassResult.bypassed ? bypassResult.reason : '');
+}
 
-  const hasMatchWithValue = match?.[0] !== undefined;
-  if (hasMatchWithValue) {
-    return {
-      hasJira: true,
-      jiraIssue: match[0],
-    };
+/**
+ * Describes why the Jira issues could not be verified, telling rejected credentials apart from an unreachable Jira
+ * @param error - The error the Jira API request failed with
+ * @returns The description for the commit status or check run
+ */
+function describeJiraApiError(error: JiraApiError): string {
+  if (error.statusCode === HTTP_UNAUTHORIZED || error.statusCode === HTTP_FORBIDDEN) {
+    return `Jira rejected the credentials used to verify ${error.issueKey} (status ${error.statusCode})`;
   }
 
-  return { hasJira: false };
+  const reason = error.statusCode !== undefined ? `status ${error.statusCode}` : 'network error';
+  return `Could not reach Jira to verify ${error.issueKey} (${reason})`;
 }
 
 /**
- * Creates or updates commit status for Jira validation
+ * Reports that the Jira issues could not be verified, so the pull request is not left without a result, and fails the step unless in warn mode
  * @param octokit - GitHub API client
  * @param contextInfo - GitHub context information
- * @param jiraResult - Result of Jira issue check
- * @param jiraBaseUrl - Base URL for Jira instance
- * @param bypassResult - Result of bypass check
+ * @param inputs - Action inputs
+ * @param jiraClient - Jira API client the request was made with
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @param jiraResult - Jira issues that were being verified
+ * @param error - The error the Jira API request failed with
  */
-async function setCommitStatus(
+async function reportJiraUnreachable(
   octokit: ReturnType<typeof getOctokit>,
   contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  jiraClient: JiraClient,
+  jiraProjects: JiraProjects,
   jiraResult: JiraCheckResult,
-  jiraBaseUrl: string,
-  bypassResult: BypassResult
+  error: JiraApiError
 ): Promise<void> {
-  const { owner, repo, prSha } = contextInfo;
-  const { hasJira, jiraIssue } = jiraResult;
-
-  // Handle bypass scenarios first
-  if (bypassResult.bypassed) {
-    await octokit.rest.repos.createCommitStatus({
-      owner,
-      repo,
-      sha: prSha,
-      state: SUCCESS_STATE,
-      target_url: undefined,
-      description: bypassResult.reason,
-      context: JIRA_STATUS_CONTEXT,
-    });
-    return;
+  const failure: ValidationFailure = {
+    rule: 'issueExists',
+    status: applyFailureState({ state: ERROR_STATE, description: describeJiraApiError(error) }, inputs),
+  };
+  const isWarning = inputs.mode === 'warn';
+  if (isWarning) {
+    logWarning(`${failure.status.description}: ${error.message}`, { title: WARNING_ANNOTATION_TITLE });
   }
 
-  // Handle normal Jira validation
-  const statusState = hasJira ? SUCCESS_STATE : ERROR_STATE;
-  const statusDescription = hasJira ? 'Jira issue found in PR title' : 'Jira issue required in PR title (format: MAPCO-1234)';
-  const targetUrl = hasJira && jiraIssue !== undefined ? `${jiraBaseUrl}/browse/${jiraIssue}` : undefined;
+  const statusDetails = isWarning ? toWarningStatus(failure.status) : failure.status;
+  await reportValidationResult(octokit, contextInfo, inputs, statusDetails, [failure]);
 
-  await octokit.rest.repos.createCommitStatus({
-    owner,
-    repo,
-    sha: prSha,
-    state: statusState,
-    target_url: targetUrl,
-    description: statusDescription,
-    context: JIRA_STATUS_CONTEXT,
+  await writeValidationSummary(contextInfo, jiraProjects, {
+    bypassResult: { bypassed: false },
+    jiraResult,
+    ruleResults: buildRuleResults(listAppliedRules(inputs, jiraProjects, jiraClient), [failure]),
+    offendingCommits: [],
+    statusDetails,
   });
+
+  if (!isWarning) {
+    setFailed(`${failure.status.description}: ${error.message}`);
+  }
 }
 
 /**
- * Finds existing bot comment with Jira link
+ * Processes Jira validation and updates PR accordingly
  * @param octokit - GitHub API client
  * @param contextInfo - GitHub context information
- * @returns Comment ID if found, undefined otherwise
+ * @param inputs - Action inputs
+ * @param jiraClient - Jira API client, undefined when no Jira credentials were supplied
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @param titleFix - The title fix made by a previous pass, undefined on the first pass
  */
-async function findExistingJiraComment(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo): Promise<number | undefined> {
-  const { owner, repo, prNumber } = contextInfo;
+async function processJiraValidation(
+  octokit: ReturnType<typeof getOctokit>,
+  contextInfo: GitHubContextInfo,
+  inputs: ActionInputs,
+  jiraClient: JiraClient | undefined,
+  jiraProjects: JiraProjects,
+  titleFix?: TitleFix
+): Promise<void> {
+  const searchSources = parseSearchSources(inputs);
 
-  const comments = await octokit.rest.issues.listComments({
-    owner,
-    repo,
-    issue_number: prNumber,
-  });
+  // Commits are listed once when every commit is checked, searching them for Jira issues reuses the list
+  const commits = inputs.requireJiraInCommits ? await listPullRequestCommits(octokit, contextInfo) : undefined;
+
+  // Extract Jira issues from the configured pull request parts
+  const detectedJiraResult = await detectJiraIssues(octokit, contextInfo, inputs, commits);
+
+  // When nothing was found, the key from the branch name can be added to the title and the pull request validated again
+  // Titles that already reference an issue, in the wrong place, are left to the author, so the key is never added twice
+  const canFixTitle = searchSources.includes('title') && !extractJiraIssues(contextInfo.prTitle, inputs).hasJira;
+  const shouldFixTitle = !detectedJiraResult.hasJira && inputs.autoFixTitle && titleFix === undefined && canFixTitle;
+  const newTitleFix = shouldFixTitle ? await fixPullRequestTitle(octokit, contextInfo, inputs) : undefined;
+  if (newTitleFix !== undefined) {
+    await processJiraValidation(octokit, { ...contextInfo, prTitle: newTitleFix.title }, inputs, jiraClient, jiraProjects, newTitleFix);
+    return;
+  }
+
+  const jiraResult: JiraCheckResult = titleFix !== undefined ? { ...detectedJiraResult, titleFix } : detectedJiraResult;
+  setJiraIssueOutputs(jiraResult, jiraProjects);
+
+  if (jiraResult.hasJira && jiraResult.source !== undefined) {
+    logInfo(`Found Jira issue in ${JIRA_ISSUE_SOURCE_LABELS[jiraResult.source]}: ${jiraResult.jiraIssues.join(', ')}`);
+  } else {
+    logWarning(`No Jira issue found in ${describeSources(searchSources)}`);
+  }
+
+  // Confirm the issues exist and satisfy the issue rules of their project when API credentials are available
+  let verification: JiraVerificationResult = { issues: [] };
+  if (jiraResult.hasJira && jiraClient !== undefined) {
+    try {
+      verification = await verifyJiraIssues(jiraClient, jiraResult.jiraIssues, jiraProjects);
+    } catch (error) {
+      if (!(error instanceof JiraApiError)) {
+        throw error;
+      }
+
+      await reportJiraUnreachable(octokit, contextInfo, inputs, jiraClient, jiraProjects, jiraResult, error);
+      return;
+    }
+  }
+  const verificationFailure = verification.failure;
+
+  // Every commit must reference a Jira issue as well when per-commit enforcement is enabled
+  const commitCheck = commits !== undefined ? verifyCommitMessages(commits, inputs) : undefined;
+  const commitFailure = commitCheck !== undefined ? buildCommitFailure(commitCheck, inputs.jiraIssuePattern) : undefined;
+
+  // Set commit status based on Jira validation, issue problems take precedence over commit problems
+  const issueStatus = buildValidationStatus(jiraResult, inputs, searchSources, jiraProjects);
+  const referenceFailure: ValidationFailure | undefined =
+    issueStatus.state === SUCCESS_STATE ? undefined : { rule: 'jiraIssue', status: issueStatus };
+  const failures = [referenceFailure, verificationFailure, commitFailure].filter((failure) => failure !== undefined);
+  const failedStatus = failures[0] !== undefined ? applyFailureState(failures[0].status, inputs) : undefined;
+  const isWarning = failedStatus !== undefined && inputs.mode === 'warn';
+  if (isWarning) {
+    logWarning(failedStatus.description, { title: WARNING_ANNOTATION_TITLE });
+  }
+
+  // In warn mode failures are reported as success, the summary still shows what would have failed
+  const statusDetails = isWarning ? toWarningStatus(failedStatus) : (failedStatus ?? issueStatus);
+  await reportValidationResult(octokit, contextInfo, inputs, statusDetails, failures);
+  logInfo(`Reported Jira validation result: ${statusDetails.state}`);
 
-  const existingComment = comments.data.find((comment) => {
-    const isGitHubActionsBot = comment.user?.login === 'github-actions[bot]';
-    const hasJiraIdentifier = comment.body?.includes(JIRA_COMMENT_IDENTIFIER) === true;
-    return isGitHubActionsBot && hasJiraIdentifier;
+  await writeValidationSummary(contextInfo, jiraProjects, {
+    bypassResult: { bypassed: false },
+    jiraResult,
+    ruleResults: buildRuleResults(listAppliedRules(inputs, jiraProjects, jiraClient), failures),
+    offendingCommits: commitCheck?.offendingCommits ?? [],
+    statusDetails,
   });
 
-  return existingComment?.id;
+  // Add or update Jira link comment if valid issues were found
+  if (jiraResult.hasJira && verificationFailure === undefined) {
+    await createOrUpdateJiraComment(octokit, contextInfo, jiraResult, inputs, verification.issues, jiraProjects);
+
+    for (const jiraIssue of jiraResult.jiraIssues) {
+      await syncJiraBacklink(contextInfo, inputs, jiraClient, jiraIssue);
+      await applyConfiguredTransition(contextInfo, inputs, jiraClient, jiraIssue);
+    }
+  } else if (isWarning && inputs.warnComment) {
+    await postJiraReminderComment(octokit, contextInfo, failedStatus.description);
+  } else {
+    await handleStaleJiraComment(octokit, contextInfo, inputs);
+  }
 }
 
 /**
- * Creates or updates Jira link comment on pull request
- * @param octokit - GitHub API client
- * @param contextInfo - GitHub context information
- * @param jiraIssue - The Jira issue ID
- * @param jiraBaseUrl - Base URL for Jira instance
+ * Converts a value from the repository config file to the format of the matching action input
+ * @param value - The parsed YAML value
+ * @param kind - The kind of value the key expects
+ * @returns The value as an input string, or undefined if it is not of the expected kind
  */
-async function createOrUpdateJiraComment(
-  octokit: ReturnType<typeof getOctokit>,
-  contextInfo: GitHubContextInfo,
-  jiraIssue: string,
-  jiraBaseUrl: string
-): Promise<void> {
-  const { owner, repo, prNumber } = contextInfo;
-  const jiraUrl = `${jiraBaseUrl}/browse/${jiraIssue}`;
-  const commentBody = `🎫 **Related Jira Issue**: [${jiraIssue}](${jiraUrl})`;
+function toConfigInputValue(value: unknown, kind: ConfigValueKind): string | undefined {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string' ? value : undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? String(value) : undefined;
+    case 'list': {
+      if (typeof value === 'string') {
+        return value;
+      }
 
-  const existingCommentId = await findExistingJiraComment(octokit, contextInfo);
+      const isStringList = Array.isArray(value) && value.every((item) => typeof item === 'string');
+      return isStringList ? value.join(',') : undefined;
+    }
+    case 'projects':
+      // Projects are read from YAML, the same format the jira-projects input uses
+      return Array.isArray(value) ? stringifyYaml(value) : undefined;
+  }
+}
 
-  if (existingCommentId !== undefined) {
-    // Update existing comment
-    await octokit.rest.issues.updateComment({
-      owner,
-      repo,
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      comment_id: existingCommentId,
-      body: commentBody,
-    });
-    logInfo(`Updated existing Jira comment for issue: ${jiraIssue}`);
-  } else {
-    // Create new comment
-    await octokit.rest.issues.createComment({
-      owner,
-      repo,
+/**
+ * Parses and validates the repository config file, skipping invalid keys
+ * @param content - The YAML content of the config file
+ * @param source - Where the config file was read from, used in error messages
+ * @returns RepositoryConfigResult with the valid keys and a problem for every invalid one
+ */
+function parseRepositoryConfig(content: string, source: string): RepositoryConfigResult {
+  let parsedConfig: unknown;
+  try {
+    parsedConfig = parseYaml(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { config: {}, errors: [{ input: source, message: `${source} is not valid YAML: ${errorMessage}` }] };
+  }
 
-      issue_number: prNumber,
-      body: commentBody,
-    });
-    logInfo(`Created new Jira comment for issue: ${jiraIssue}`);
+  // An empty file configures nothing
+  if (parsedConfig === null || parsedConfig === undefined) {
+    return { config: {}, errors: [] };
+  }
+
+  const isMapping = typeof parsedConfig === 'object' && !Array.isArray(parsedConfig);
+  if (!isMapping) {
+    return { config: {}, errors: [{ input: source, message: `${source} must map input names to values` }] };
+  }
+
+  const config: Partial<Record<RepositoryConfigKey, string>> = {};
+  const errors: InputError[] = [];
+  for (const [key, value] of Object.entries(parsedConfig)) {
+    const isKnownKey = Object.hasOwn(REPOSITORY_CONFIG_SCHEMA, key);
+    if (!isKnownKey) {
+      errors.push({
+        input: key,
+        message: `${source} contains unknown key "${key}", expected any of: ${Object.keys(REPOSITORY_CONFIG_SCHEMA).join(', ')}`,
+      });
+      continue;
+    }
+
+    const configKey = key as RepositoryConfigKey;
+    const valueKind = REPOSITORY_CONFIG_SCHEMA[configKey];
+    const inputValue = toConfigInputValue(value, valueKind);
+    if (inputValue === undefined) {
+      errors.push({ input: key, message: `${key} in ${source} must be ${CONFIG_VALUE_KIND_LABELS[valueKind]}` });
+      continue;
+    }
+
+    config[configKey] = inputValue;
   }
+
+  return { config, errors };
 }
 
 /**
- * Parses comma-separated bypass labels from input
- * @param bypassLabelsInput - Comma-separated string of bypass labels
- * @returns Array of trimmed bypass labels
+ * Reads the config file from a repository through the contents API
+ * @param octokit - GitHub API client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns The content of the config file, or undefined if the repository has none
  */
-function parseBypassLabels(bypassLabelsInput: string): readonly string[] {
-  if (bypassLabelsInput === '') {
-    return [];
-  }
+async function readRepositoryConfigFile(octokit: ReturnType<typeof getOctokit>, owner: string, repo: string): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path: REPOSITORY_CONFIG_PATH });
+    // Directories, symlinks and submodules have no content to read
+    const isFile = !Array.isArray(data) && data.type === 'file' && 'content' in data;
+    return isFile ? Buffer.from(data.content, 'base64').toString('utf8') : undefined;
+  } catch (error) {
+    // The API responds with 404 when the file or the repository does not exist
+    if (isNotFoundError(error)) {
+      return undefined;
+    }
 
-  return bypassLabelsInput
-    .split(',')
-    .map((label) => label.trim())
-    .filter((label) => label !== '');
+    // Workflows without the contents: read permission cannot read the file, which must not block validation
+    if (isForbiddenError(error)) {
+      logWarning(`Could not read ${owner}/${repo}/${REPOSITORY_CONFIG_PATH}, add the contents: read permission to use a config file`);
+      return undefined;
+    }
+
+    throw error;
+  }
 }
 
 /**
- * Checks if PR has any bypass labels that would skip Jira validation
+ * Loads the config file of the repository, falling back to the config file of the organization's .github repository
  * @param octokit - GitHub API client
- * @param contextInfo - GitHub context information
- * @param bypassLabels - Array of bypass label names
- * @returns True if PR has any bypass labels
+ * @param context - GitHub context
+ * @returns RepositoryConfigResult, with an empty config when neither repository has a config file
  */
-async function hasBypassLabels(
-  octokit: ReturnType<typeof getOctokit>,
-  contextInfo: GitHubContextInfo,
-  bypassLabels: readonly string[]
-): Promise<boolean> {
-  // Early return if no bypass labels configured
-  if (bypassLabels.length === 0) {
-    return false;
+async function loadRepositoryConfig(octokit: ReturnType<typeof getOctokit>, context: typeof githubContext): Promise<RepositoryConfigResult> {
+  const { owner, repo } = context.repo;
+  const configRepos = repo === ORG_CONFIG_REPO ? [repo] : [repo, ORG_CONFIG_REPO];
+
+  for (const configRepo of configRepos) {
+    const content = await readRepositoryConfigFile(octokit, owner, configRepo);
+    if (content !== undefined) {
+      const source = `${owner}/${configRepo}/${REPOSITORY_CONFIG_PATH}`;
+      logInfo(`Using Jira integration config from ${source}`);
+      return parseRepositoryConfig(content, source);
+    }
   }
 
-  const { owner, repo, prNumber } = contextInfo;
+  return { config: {}, errors: [] };
+}
 
-  // Fetch PR labels from GitHub API
-  const response = await octokit.rest.issues.listLabelsOnIssue({
-    owner,
-    repo,
-    issue_number: prNumber,
-  });
+/**
+ * Reads a single entry of the jira-projects input
+ * @param entry - The parsed YAML entry
+ * @param position - Position of the entry in the list, starting at 1, used in error messages
+ * @returns JiraProjectDefinition for the entry
+ * @throws Error describing the problem when the entry is invalid
+ */
+function readJiraProjectDefinition(entry: unknown, position: number): JiraProjectDefinition {
+  const isMapping = typeof entry === 'object' && entry !== null && !Array.isArray(entry);
+  if (!isMapping) {
+    throw new Error(`jira-projects entry ${position} must map fields to values, e.g. key: MAPCO`);
+  }
 
-  const prLabels = response.data.map((label) => label.name);
+  const fields: Partial<Record<keyof typeof JIRA_PROJECT_SCHEMA, string>> = {};
+  for (const [field, value] of Object.entries(entry)) {
+    const isKnownField = Object.hasOwn(JIRA_PROJECT_SCHEMA, field);
+    if (!isKnownField) {
+      throw new Error(
+        `jira-projects entry ${position} contains unknown field "${field}", expected any of: ${Object.keys(JIRA_PROJECT_SCHEMA).join(', ')}`
+      );
+    }
+
+    const projectField = field as keyof typeof JIRA_PROJECT_SCHEMA;
+    const valueKind = JIRA_PROJECT_SCHEMA[projectField];
+    const fieldValue = toConfigInputValue(value, valueKind);
+    if (fieldValue === undefined) {
+      throw new Error(`${field} of jira-projects entry ${position} must be ${CONFIG_VALUE_KIND_LABELS[valueKind]}`);
+    }
+
+    fields[projectField] = fieldValue;
+  }
+
+  const { key, 'base-url': baseUrl } = fields;
+  if (key === undefined || !JIRA_PROJECT_KEY_PATTERN.test(key)) {
+    throw new Error(`jira-projects entry ${position} must have a Jira project key in upper case, e.g. key: MAPCO`);
+  }
 
-  // Check if any PR label matches bypass labels
-  const hasBypassLabel = bypassLabels.some((bypassLabel) => prLabels.includes(bypassLabel));
+  if (baseUrl !== undefined && !isHttpUrl(baseUrl)) {
+    throw new Error(`base-url of jira-projects entry ${position} must be an http or https URL, got "${baseUrl}"`);
+  }
 
-  return hasBypassLabel;
+  return {
+    key,
+    baseUrl: baseUrl !== undefined ? normalizeBaseUrl(baseUrl) : undefined,
+    allowedStatusesInput: fields['allowed-statuses'],
+    allowedIssueTypesInput: fields['allowed-issue-types'],
+  };
 }
 
 /**
- * Checks if Jira validation should be bypassed for this PR
- * @param octokit - GitHub API client
- * @param contextInfo - GitHub context information
- * @param bypassUsersInput - Comma-separated string of usernames to bypass
- * @param bypassLabelsInput - Comma-separated string of labels to bypass
- * @returns BypassResult indicating if validation should be bypassed and why
+ * Reads the Jira projects listed in the jira-projects input
+ * @param jiraProjectsInput - YAML list of projects
+ * @returns Array of project definitions, empty when the input is empty
+ * @throws Error describing the problem when the input is invalid
  */
-async function checkBypass(
-  octokit: ReturnType<typeof getOctokit>,
-  contextInfo: GitHubContextInfo,
-  bypassUsersInput: string,
-  bypassLabelsInput: string
-): Promise<BypassResult> {
-  const { prAuthor } = contextInfo;
-  // Check if PR author is in bypass list
-  const isPrAuthorBypassed = prAuthor !== undefined && isUserBypassed(prAuthor, bypassUsersInput);
-  if (isPrAuthorBypassed) {
-    return { bypassed: true, reason: 'Bypassed validation for user' };
+function readJiraProjectDefinitions(jiraProjectsInput: string): readonly JiraProjectDefinition[] {
+  if (jiraProjectsInput.trim() === '') {
+    return [];
   }
 
-  // Check if PR has bypass labels
-  const bypassLabels = parseBypassLabels(bypassLabelsInput);
-  const prHasBypassLabels = await hasBypassLabels(octokit, contextInfo, bypassLabels);
-  if (prHasBypassLabels) {
-    return { bypassed: true, reason: 'Bypassed validation due to label' };
+  let parsedProjects: unknown;
+  try {
+    parsedProjects = parseYaml(jiraProjectsInput);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`jira-projects is not valid YAML: ${errorMessage}`);
   }
 
-  return { bypassed: false };
+  if (!Array.isArray(parsedProjects)) {
+    throw new Error('jira-projects must be a list of projects');
+  }
+
+  const definitions = parsedProjects.map((entry, index) => readJiraProjectDefinition(entry, index + 1));
+  const duplicateProject = definitions.find((definition, index) => definitions.findIndex((other) => other.key === definition.key) !== index);
+  if (duplicateProject !== undefined) {
+    throw new Error(`jira-projects lists project ${duplicateProject.key} more than once`);
+  }
+
+  return definitions;
 }
 
 /**
- * Sets commit status to success (bypassed validation)
- * @param octokit - GitHub API client
- * @param contextInfo - GitHub context information
- * @param jiraBaseUrl - Base URL for Jira instance
- * @param bypassResult - Result of bypass check
+ * Builds a pattern matching the issue keys of the configured Jira projects
+ * @param jiraProjectsInput - YAML list of projects
+ * @returns Regex pattern for the issues of every project, the default pattern when no projects are configured
  */
-async function setBypassedStatus(
-  octokit: ReturnType<typeof getOctokit>,
-  contextInfo: GitHubContextInfo,
-  jiraBaseUrl: string,
-  bypassResult: BypassResult
-): Promise<void> {
-  await setCommitStatus(octokit, contextInfo, { hasJira: false, jiraIssue: undefined }, jiraBaseUrl, bypassResult);
+function deriveJiraIssuePattern(jiraProjectsInput: string): string {
+  try {
+    const projectKeys = readJiraProjectDefinitions(jiraProjectsInput).map((project) => project.key);
+    return projectKeys.length > 0 ? `(?:${projectKeys.join('|')})-\\d+` : DEFAULT_JIRA_ISSUE_PATTERN;
+  } catch {
+    // Invalid project lists are reported by validateInputs
+    return DEFAULT_JIRA_ISSUE_PATTERN;
+  }
 }
 
 /**
- * Processes Jira validation and updates PR accordingly
- * @param octokit - GitHub API client
- * @param contextInfo - GitHub context information
- * @param jiraIssuePattern - Regex pattern for Jira issues
- * @param jiraBaseUrl - Base URL for Jira instance
+ * Resolves the Jira instance and issue rules of every configured project, falling back to the top-level inputs
+ * @param inputs - Action inputs
+ * @returns JiraProjects for looking up the settings of an issue
  */
-async function processJiraValidation(
-  octokit: ReturnType<typeof getOctokit>,
-  contextInfo: GitHubContextInfo,
-  jiraIssuePattern: string,
-  jiraBaseUrl: string
-): Promise<void> {
-  // Extract Jira issue from PR title
-  const jiraResult = extractJiraIssue(contextInfo.prTitle, jiraIssuePattern);
+function resolveJiraProjects(inputs: ActionInputs): JiraProjects {
+  const fallback: JiraProjectSettings = {
+    baseUrl: inputs.jiraBaseUrl,
+    rules: {
+      allowedStatuses: parseCommaSeparatedList(inputs.allowedStatusesInput),
+      allowedIssueTypes: parseCommaSeparatedList(inputs.allowedIssueTypesInput),
+    },
+  };
 
-  const hasJiraIssue = jiraResult.hasJira && jiraResult.jiraIssue !== undefined;
-  if (hasJiraIssue) {
-    logInfo(`Found Jira issue: ${jiraResult.jiraIssue as string}`);
-  } else {
-    logWarning('No Jira issue found in PR title');
+  const byKey = new Map<string, JiraProjectSettings>();
+  for (const project of readJiraProjectDefinitions(inputs.jiraProjectsInput)) {
+    byKey.set(project.key, {
+      baseUrl: project.baseUrl ?? fallback.baseUrl,
+      rules: {
+        allowedStatuses:
+          project.allowedStatusesInput !== undefined ? parseCommaSeparatedList(project.allowedStatusesInput) : fallback.rules.allowedStatuses,
+        allowedIssueTypes:
+          project.allowedIssueTypesInput !== undefined ? parseCommaSeparatedList(project.allowedIssueTypesInput) : fallback.rules.allowedIssueTypes,
+      },
+    });
   }
 
-  // Set commit status based on Jira validation
-  await setCommitStatus(octokit, contextInfo, jiraResult, jiraBaseUrl, { bypassed: false });
-  logInfo(`Set commit status: ${jiraResult.hasJira ? 'success' : 'error'}`);
+  return { byKey, fallback };
+}
 
-  // Add or update Jira link comment if issue found
-  if (hasJiraIssue && jiraResult.jiraIssue !== undefined) {
-    await createOrUpdateJiraComment(octokit, contextInfo, jiraResult.jiraIssue, jiraBaseUrl);
-  }
+/**
+ * Looks up the settings of the Jira project an issue belongs to
+ * @param jiraIssue - The Jira issue key
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns JiraProjectSettings of the issue's project, the fallback settings when the project is not configured
+ */
+function getJiraProjectSettings(jiraIssue: string, jiraProjects: JiraProjects): JiraProjectSettings {
+  const projectKey = jiraIssue.slice(0, jiraIssue.lastIndexOf('-'));
+  return jiraProjects.byKey.get(projectKey) ?? jiraProjects.fallback;
 }
 
 /**
- * Gets action inputs from environment or GitHub action inputs
- * @returns Action inputs object
+ * Builds the link to a Jira issue on the Jira instance of its project
+ * @param jiraIssue - The Jira issue key
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns URL of the Jira issue
+ */
+function buildJiraIssueUrl(jiraIssue: string, jiraProjects: JiraProjects): string {
+  return `${getJiraProjectSettings(jiraIssue, jiraProjects).baseUrl}/browse/${jiraIssue}`;
+}
+
+/**
+ * Reads an action input that can also be set in the repository config file, the input takes precedence
+ * @param name - Name of the input
+ * @param config - Repository config
+ * @returns The input value, the config value when the input is empty, or an empty string when neither is set
+ */
+function getConfigurableInput(name: RepositoryConfigKey, config: RepositoryConfig): string {
+  const value = getInput(name);
+  return value !== '' ? value : (config[name] ?? '');
+}
+
+/**
+ * Reads the value of a boolean action input, values other than true and false are reported by input validation
+ * @param name - Name of the input
+ * @param configValue - Value from the repository config file, used when the input is empty
+ * @returns The input value, the config value when the input is empty, or an empty string when neither is set
+ */
+function getBooleanInputValue(name: BooleanInputName, configValue = ''): string {
+  const inputValue = getInput(name);
+  return inputValue !== '' ? inputValue : configValue;
+}
+
+/**
+ * Converts the value of a boolean action input
+ * @param value - The input value
+ * @param defaultValue - Value used when the input is empty
+ * @returns True if the value is "true" (case-insensitive), the default value if it is empty, false otherwise
+ */
+function parseBooleanInput(value: string, defaultValue: boolean): boolean {
+  return value !== '' ? value.toLowerCase() === 'true' : defaultValue;
+}
+
+/**
+ * Gets the GitHub token from the action input or the environment
+ * @returns The GitHub token, empty when none was supplied
  */
-function getActionInputs(): ActionInputs {
+function getGitHubToken(): string {
   const githubTokenInput = getInput('github-token');
   const envToken = process.env.GITHUB_TOKEN;
-  const patternInput = getInput('jira-issue-pattern');
+  return githubTokenInput !== '' ? githubTokenInput : (envToken ?? '');
+}
+
+/**
+ * Gets action inputs from environment or GitHub action inputs
+ * @param config - Repository config, used for inputs that were not set explicitly
+ * @returns Action inputs object
+ */
+function getActionInputs(config: RepositoryConfig): ActionInputs {
+  const patternInput = getConfigurableInput('jira-issue-pattern', config);
+  const jiraProjectsInput = getConfigurableInput('jira-projects', config);
+  const bypassUsersInput = getConfigurableInput('bypass-users', config);
+  const backlinkInput = getInput('jira-backlink');
+  const searchInInput = getConfigurableInput('search-in', config);
+  const staleCommentInput = getInput('stale-comment');
+  const reportAsInput = getInput('report-as');
+  const statusContextInput = getInput('status-context');
+  const failureDescriptionInput = getInput('failure-description');
+  const bypassDescriptionInput = getInput('bypass-description');
+  const modeInput = getConfigurableInput('mode', config);
+  const autoFixTitleFormatInput = getConfigurableInput('auto-fix-title-format', config);
+  const keyPositionInput = getConfigurableInput('key-position', config);
 
   // Handle nullable inputs explicitly
-  const token = githubTokenInput !== '' ? githubTokenInput : (envToken ?? '');
-  const jiraIssuePattern = patternInput !== '' ? patternInput : 'MAPCO-\\d+';
+  const jiraIssuePattern = patternInput !== '' ? patternInput : deriveJiraIssuePattern(jiraProjectsInput);
+  const bypassUsers = bypassUsersInput !== '' ? bypassUsersInput : DEFAULT_BYPASS_USERS;
+  const jiraBacklink = backlinkInput !== '' ? backlinkInput : 'none';
+  const searchIn = searchInInput !== '' ? searchInInput : 'title';
+  const staleComment = staleCommentInput !== '' ? staleCommentInput : 'keep';
+  const reportAs = reportAsInput !== '' ? reportAsInput : 'status';
+  const statusContext = statusContextInput !== '' ? statusContextInput : JIRA_STATUS_CONTEXT;
+  const failureDescription = failureDescriptionInput !== '' ? failureDescriptionInput : DEFAULT_FAILURE_DESCRIPTION;
+  const bypassDescription = bypassDescriptionInput !== '' ? bypassDescriptionInput : '{{reason}}';
+  const mode = modeInput !== '' ? modeInput : 'enforce';
+  const keyPosition = keyPositionInput !== '' ? keyPositionInput : 'anywhere';
+  const defaultTitleFormat = keyPosition === 'prefix' ? PREFIX_TITLE_FORMAT : DEFAULT_TITLE_FORMAT;
+  const autoFixTitleFormat = autoFixTitleFormatInput !== '' ? autoFixTitleFormatInput : defaultTitleFormat;
+  const booleanInputValues: Readonly<Record<BooleanInputName, string>> = {
+    'case-insensitive-keys': getBooleanInputValue('case-insensitive-keys', config['case-insensitive-keys']),
+    'require-word-boundaries': getBooleanInputValue('require-word-boundaries', config['require-word-boundaries']),
+    'bypass-bots': getBooleanInputValue('bypass-bots', config['bypass-bots']),
+    'require-jira-in-commits': getBooleanInputValue('require-jira-in-commits', config['require-jira-in-commits']),
+    'exempt-merge-commits': getBooleanInputValue('exempt-merge-commits'),
+    'exempt-bot-commits': getBooleanInputValue('exempt-bot-commits'),
+    'warn-comment': getBooleanInputValue('warn-comment'),
+    'auto-fix-title': getBooleanInputValue('auto-fix-title', config['auto-fix-title']),
+  };
 
   return {
-    token,
-    jiraBaseUrl: getInput('jira-base-url'),
+    token: getGitHubToken(),
+    jiraBaseUrl: normalizeBaseUrl(getInput('jira-base-url')),
     jiraIssuePattern,
-    bypassLabelsInput: getInput('bypass-labels'),
-    bypassUsersInput: getInput('bypass-users'),
+    jiraProjectsInput,
+    caseInsensitiveKeys: parseBooleanInput(booleanInputValues['case-insensitive-keys'], false),
+    requireWordBoundaries: parseBooleanInput(booleanInputValues['require-word-boundaries'], false),
+    keyPosition,
+    bypassLabelsInput: getConfigurableInput('bypass-labels', config),
+    bypassUsersInput: bypassUsers,
+    bypassBranchesInput: getConfigurableInput('bypass-branches', config),
+    bypassTeamsInput: getConfigurableInput('bypass-teams', config),
+    bypassAuthorAssociationsInput: getConfigurableInput('bypass-author-associations', config),
+    bypassBots: parseBooleanInput(booleanInputValues['bypass-bots'], false),
+    jiraEmail: getInput('jira-email'),
+    jiraApiToken: getInput('jira-api-token'),
+    allowedStatusesInput: getConfigurableInput('allowed-statuses', config),
+    allowedIssueTypesInput: getConfigurableInput('allowed-issue-types', config),
+    transitionOnOpened: getInput('transition-on-opened'),
+    transitionOnReadyForReview: getInput('transition-on-ready-for-review'),
+    transitionOnMerged: getInput('transition-on-merged'),
+    jiraBacklink,
+    searchInInput: searchIn,
+    requireJiraInCommits: parseBooleanInput(booleanInputValues['require-jira-in-commits'], false),
+    exemptMergeCommits: parseBooleanInput(booleanInputValues['exempt-merge-commits'], true),
+    exemptBotCommits: parseBooleanInput(booleanInputValues['exempt-bot-commits'], true),
+    commentTemplate: getInput('comment-template'),
+    staleComment,
+    reportAs,
+    statusContext,
+    failureStateInput: getInput('failure-state'),
+    successDescription: getInput('success-description'),
+    failureDescription,
+    bypassDescription,
+    mode,
+    warnComment: parseBooleanInput(booleanInputValues['warn-comment'], false),
+    prNumberInput: getInput('pr-number'),
+    autoFixTitle: parseBooleanInput(booleanInputValues['auto-fix-title'], false),
+    autoFixTitleFormat,
+    booleanInputValues,
+  };
+}
+
+/**
+ * Creates a Jira API client when Jira credentials were supplied, sending each request to the Jira instance of the issue's project
+ * @param inputs - Action inputs
+ * @param jiraProjects - Settings of the configured Jira projects
+ * @returns JiraClient, or undefined when Jira API validation is disabled
+ */
+function createJiraClientFromInputs(inputs: ActionInputs, jiraProjects: JiraProjects): JiraClient | undefined {
+  const hasJiraCredentials = inputs.jiraEmail !== '' && inputs.jiraApiToken !== '';
+  if (!hasJiraCredentials) {
+    return undefined;
+  }
+
+  // The same credentials are used for every Jira instance, with one client per instance
+  const clientsByBaseUrl = new Map<string, JiraClient>();
+  const getClient = (issueKey: string): JiraClient => {
+    const { baseUrl } = getJiraProjectSettings(issueKey, jiraProjects);
+    const existingClient = clientsByBaseUrl.get(baseUrl);
+    if (existingClient !== undefined) {
+      return existingClient;
+    }
+
+    const client = createJiraClient({ baseUrl, email: inputs.jiraEmail, apiToken: inputs.jiraApiToken });
+    clientsByBaseUrl.set(baseUrl, client);
+    return client;
+  };
+
+  return {
+    getIssue: async (issueKey) => getClient(issueKey).getIssue(issueKey),
+    getTransitions: async (issueKey) => getClient(issueKey).getTransitions(issueKey),
+    transitionIssue: async (issueKey, transitionId) => getClient(issueKey).transitionIssue(issueKey, transitionId),
+    upsertRemoteLink: async (issueKey, remoteLink) => getClient(issueKey).upsertRemoteLink(issueKey, remoteLink),
+    getComments: async (issueKey) => getClient(issueKey).getComments(issueKey),
+    addComment: async (issueKey, body) => getClient(issueKey).addComment(issueKey, body),
+    updateComment: async (issueKey, commentId, body) => getClient(issueKey).updateComment(issueKey, commentId, body),
   };
 }
 
@@ -426,19 +2897,45 @@ function getActionInputs(): ActionInputs {
  * @param inputs - Action inputs
  */
 async function handleWorkflow(octokit: ReturnType<typeof getOctokit>, contextInfo: GitHubContextInfo, inputs: ActionInputs): Promise<void> {
+  if (inputs.mode === 'off') {
+    logInfo('Jira integration is turned off (mode: off), skipping');
+    return;
+  }
+
   logInfo(`Processing PR #${contextInfo.prNumber}: "${contextInfo.prTitle}"`);
+  const jiraProjects = resolveJiraProjects(inputs);
+  const jiraClient = createJiraClientFromInputs(inputs, jiraProjects);
+
+  // Closed pull requests are not validated, only their Jira issue is transitioned
+  if (contextInfo.prAction === 'closed') {
+    await processClosedPullRequest(octokit, contextInfo, inputs, jiraClient, jiraProjects);
+    return;
+  }
 
   // Check if validation should be bypassed
-  const bypassResult = await checkBypass(octokit, contextInfo, inputs.bypassUsersInput, inputs.bypassLabelsInput);
+  const bypassResult = await checkBypass(octokit, contextInfo, inputs);
+  setBypassOutputs(bypassResult);
+
+  // Other label changes leave the previous result in place, only the outputs are set for later steps
+  const isLabelEvent = contextInfo.prAction !== undefined && LABEL_ACTIONS.includes(contextInfo.prAction);
+  if (isLabelEvent && !isBypassLabelChange(contextInfo, inputs.bypassLabelsInput)) {
+    logInfo(`Label "${contextInfo.changedLabel}" is not a bypass label, skipping`);
+    setJiraIssueOutputs(await detectJiraIssues(octokit, contextInfo, inputs), jiraProjects);
+    return;
+  }
 
   if (bypassResult.bypassed) {
     logInfo(`Bypassing Jira validation: ${bypassResult.reason}`);
-    await setBypassedStatus(octokit, contextInfo, inputs.jiraBaseUrl, bypassResult);
+    // Bypassed pull requests are not validated, but later steps can still use the issues they reference
+    const jiraResult = await detectJiraIssues(octokit, contextInfo, inputs);
+    setJiraIssueOutputs(jiraResult, jiraProjects);
+    await setBypassedStatus(octokit, contextInfo, inputs, bypassResult);
+    await writeValidationSummary(contextInfo, jiraProjects, { bypassResult, jiraResult, ruleResults: [], offendingCommits: [] });
     return;
   }
 
   // Proceed with normal Jira validation
-  await processJiraValidation(octokit, contextInfo, inputs.jiraIssuePattern, inputs.jiraBaseUrl);
+  await processJiraValidation(octokit, contextInfo, inputs, jiraClient, jiraProjects);
   logInfo('Jira integration completed successfully');
 }
 
@@ -448,24 +2945,33 @@ async function handleWorkflow(octokit: ReturnType<typeof getOctokit>, contextInf
  */
 export async function run(): Promise<void> {
   try {
+    const token = getGitHubToken();
+    if (token === '') {
+      setFailed('GitHub token is required');
+      return;
+    }
+
+    // Initialize GitHub client
+    const octokit = getOctokit(token);
+
+    // Load the repository config file, explicit inputs take precedence over it
+    const repositoryConfig = await loadRepositoryConfig(octokit, githubContext);
+
     // Get action inputs
-    const inputs = getActionInputs();
+    const inputs = getActionInputs(repositoryConfig.config);
 
-    // Validate required inputs
-    const isValidInput = validateInputs(inputs.token, inputs.jiraBaseUrl);
+    // Validate required inputs, along with the problems found in the config file
+    const isValidInput = validateInputs(inputs, repositoryConfig.errors);
     if (!isValidInput) {
       return;
     }
 
     // Extract context information
-    const contextInfo = extractContextInfo(githubContext);
+    const contextInfo = await extractContextInfo(octokit, githubContext, inputs);
     if (contextInfo === undefined) {
       return;
     }
 
-    // Initialize GitHub client
-    const octokit = getOctokit(inputs.token);
-
     // Handle the main workflow
     await handleWorkflow(octokit, contextInfo, inputs);
   } catch (error) {
@@ -0,0 +1,281 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { faker } from '@faker-js/faker';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createJiraClient, JiraApiError } from '../jira-client.js';
+
+/**
+ * Interface for a request captured by the local Jira stand-in
+ */
+interface CapturedRequest {
+  readonly method: string | undefined;
+  readonly url: string | undefined;
+  readonly authorization: string | undefined;
+}
+
+type RequestHandler = (request: IncomingMessage, response: ServerResponse) => void;
+
+/**
+ * Test suite for the Jira REST API client, run against a local HTTP stand-in
+ */
+describe('Jira client', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: RequestHandler;
+  let capturedRequests: CapturedRequest[];
+
+  const email = faker.internet.email();
+  const apiToken = faker.string.alphanumeric(24);
+
+  /**
+   * Responds to the next requests with the given status code and JSON body
+   */
+  const respondWith = (statusCode: number, body?: unknown): void => {
+    handler = (_request, response) => {
+      response.writeHead(statusCode, { 'content-type': 'application/json' });
+      response.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+  };
+
+  beforeEach(async () => {
+    capturedRequests = [];
+    respondWith(200, {});
+
+    server = createServer((request, response) => {
+      capturedRequests.push({ method: request.method, url: request.url, authorization: request.headers.authorization });
+      handler(request, response);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('getIssue', () => {
+    /**
+     * Test fetching an existing issue
+     */
+    it('should return the issue details when the issue exists', async () => {
+      const issueKey = `MAPCO-${faker.number.int({ min: 1000, max: 9999 })}`;
+      const summary = faker.lorem.sentence();
+      const assignee = faker.person.fullName();
+      respondWith(200, {
+        key: issueKey,
+        fields: {
+          summary,
+          status: { name: 'In Progress' },
+          issuetype: { name: 'Story' },
+          assignee: { displayName: assignee },
+        },
+      });
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const issue = await client.getIssue(issueKey);
+
+      expect(issue).toEqual({ key: issueKey, summary, status: 'In Progress', issueType: 'Story', assignee });
+      expect(capturedRequests).toEqual([
+        {
+          method: 'GET',
+          url: `/rest/api/2/issue/${issueKey}?fields=summary,status,issuetype,assignee`,
+          authorization: `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`,
+        },
+      ]);
+    });
+
+    /**
+     * Test unassigned issues
+     */
+    it('should return an undefined assignee for unassigned issues', async () => {
+      respondWith(200, {
+        key: 'MAPCO-1',
+        fields: { summary: faker.lorem.sentence(), status: { name: 'Backlog' }, issuetype: { name: 'Bug' }, assignee: null },
+      });
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const issue = await client.getIssue('MAPCO-1');
+
+      expect(issue?.assignee).toBeUndefined();
+    });
+
+    /**
+     * Test missing issues
+     */
+    it('should return undefined when the issue does not exist', async () => {
+      respondWith(404, { errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+
+      await expect(client.getIssue('MAPCO-99999')).resolves.toBeUndefined();
+    });
+
+    /**
+     * Test unexpected Jira API errors
+     */
+    it('should throw a JiraApiError when Jira responds with an unexpected status', async () => {
+      respondWith(401);
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const request = client.getIssue('MAPCO-1');
+
+      await expect(request).rejects.toBeInstanceOf(JiraApiError);
+      await expect(request).rejects.toMatchObject({
+        statusCode: 401,
+        issueKey: 'MAPCO-1',
+        message: 'Jira API request for MAPCO-1 failed with status 401',
+      });
+    });
+
+    /**
+     * Test that network failures are reported as Jira API errors without a status code
+     */
+    it('should throw a JiraApiError when Jira cannot be reached', async () => {
+      // Dropping the connection makes fetch reject without a response
+      handler = (request) => {
+        request.socket.destroy();
+      };
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const request = client.getIssue('MAPCO-1');
+
+      await expect(request).rejects.toBeInstanceOf(JiraApiError);
+      await expect(request).rejects.toMatchObject({
+        statusCode: undefined,
+        issueKey: 'MAPCO-1',
+        message: 'Jira API request for MAPCO-1 failed: fetch failed',
+      });
+    });
+  });
+
+  describe('transitions', () => {
+    /**
+     * Test listing available transitions
+     */
+    it('should list the transitions available on an issue', async () => {
+      respondWith(200, {
+        transitions: [
+          { id: '11', name: 'Start Progress', to: { name: 'In Progress' } },
+          { id: '31', name: 'Complete', to: { name: 'Done' } },
+        ],
+      });
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const transitions = await client.getTransitions('MAPCO-1');
+
+      expect(transitions).toEqual([
+        { id: '11', name: 'Start Progress', toStatus: 'In Progress' },
+        { id: '31', name: 'Complete', toStatus: 'Done' },
+      ]);
+      expect(capturedRequests[0]).toMatchObject({ method: 'GET', url: '/rest/api/2/issue/MAPCO-1/transitions' });
+    });
+
+    /**
+     * Test performing a transition
+     */
+    it('should post the transition ID when transitioning an issue', async () => {
+      let requestBody = '';
+      handler = (request, response) => {
+        request.on('data', (chunk: Buffer) => (requestBody += chunk.toString()));
+        request.on('end', () => {
+          response.writeHead(204);
+          response.end();
+        });
+      };
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      await client.transitionIssue('MAPCO-1', '31');
+
+      expect(capturedRequests[0]).toMatchObject({ method: 'POST', url: '/rest/api/2/issue/MAPCO-1/transitions' });
+      expect(JSON.parse(requestBody)).toEqual({ transition: { id: '31' } });
+    });
+
+    /**
+     * Test failed transitions
+     */
+    it('should throw a JiraApiError when the transition is rejected', async () => {
+      respondWith(400, { errorMessages: ['Transition is not valid'] });
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+
+      await expect(client.transitionIssue('MAPCO-1', '999')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('remote links', () => {
+    /**
+     * Test remote link creation
+     */
+    it('should post the remote link with its global ID', async () => {
+      let requestBody = '';
+      handler = (request, response) => {
+        request.on('data', (chunk: Buffer) => (requestBody += chunk.toString()));
+        request.on('end', () => {
+          response.writeHead(201, { 'content-type': 'application/json' });
+          response.end(JSON.stringify({ id: 10000 }));
+        });
+      };
+      const prUrl = faker.internet.url();
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      await client.upsertRemoteLink('MAPCO-1', { globalId: prUrl, url: prUrl, title: 'PR #1', summary: 'repo pull request', resolved: true });
+
+      expect(capturedRequests[0]).toMatchObject({ method: 'POST', url: '/rest/api/2/issue/MAPCO-1/remotelink' });
+      expect(JSON.parse(requestBody)).toEqual({
+        globalId: prUrl,
+        object: {
+          url: prUrl,
+          title: 'PR #1',
+          summary: 'repo pull request',
+          icon: { url16x16: 'https://github.com/favicon.ico', title: 'GitHub' },
+          status: { resolved: true },
+        },
+      });
+    });
+  });
+
+  describe('comments', () => {
+    /**
+     * Test comment pagination
+     */
+    it('should follow pagination when listing comments', async () => {
+      handler = (request, response) => {
+        const startAt = new URL(request.url as string, baseUrl).searchParams.get('startAt');
+        const comments = startAt === '0' ? [{ id: '1', body: 'first' }] : [{ id: '2', body: 'second' }];
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify({ startAt: Number(startAt), total: 2, comments }));
+      };
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      const comments = await client.getComments('MAPCO-1');
+
+      expect(comments).toEqual([
+        { id: '1', body: 'first' },
+        { id: '2', body: 'second' },
+      ]);
+      expect(capturedRequests.map((request) => request.url)).toEqual([
+        '/rest/api/2/issue/MAPCO-1/comment?startAt=0&maxResults=100',
+        '/rest/api/2/issue/MAPCO-1/comment?startAt=1&maxResults=100',
+      ]);
+    });
+
+    /**
+     * Test adding and updating comments
+     */
+    it('should add and update comments', async () => {
+      respondWith(200, {});
+
+      const client = createJiraClient({ baseUrl, email, apiToken });
+      await client.addComment('MAPCO-1', 'new comment');
+      await client.updateComment('MAPCO-1', '42', 'updated comment');
+
+      expect(capturedRequests).toMatchObject([
+        { method: 'POST', url: '/rest/api/2/issue/MAPCO-1/comment' },
+        { method: 'PUT', url: '/rest/api/2/issue/MAPCO-1/comment/42' },
+      ]);
+    });
+  });
+});
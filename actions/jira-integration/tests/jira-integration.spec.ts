@@ -3,7 +3,7 @@
 import { faker } from '@faker-js/faker';
 import { fromPartial } from '@total-typescript/shoehorn';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import type { MockedFunction } from 'vitest';
+import type { MockedFunction, MockInstance } from 'vitest';
 
 import * as core from '@actions/core';
 import * as github from '@actions/github';
@@ -38,8 +38,41 @@ interface MockInputOptions {
   readonly githubToken?: string;
   readonly jiraBaseUrl?: string;
   readonly jiraIssuePattern?: string;
+  readonly jiraProjects?: string;
+  readonly caseInsensitiveKeys?: string;
+  readonly requireWordBoundaries?: string;
+  readonly keyPosition?: string;
   readonly bypassLabels?: string;
   readonly bypassUsers?: string;
+  readonly bypassBranches?: string;
+  readonly bypassTeams?: string;
+  readonly bypassAuthorAssociations?: string;
+  readonly bypassBots?: string;
+  readonly jiraEmail?: string;
+  readonly jiraApiToken?: string;
+  readonly allowedStatuses?: string;
+  readonly allowedIssueTypes?: string;
+  readonly transitionOnOpened?: string;
+  readonly transitionOnReadyForReview?: string;
+  readonly transitionOnMerged?: string;
+  readonly jiraBacklink?: string;
+  readonly searchIn?: string;
+  readonly requireJiraInCommits?: string;
+  readonly exemptMergeCommits?: string;
+  readonly exemptBotCommits?: string;
+  readonly commentTemplate?: string;
+  readonly staleComment?: string;
+  readonly reportAs?: string;
+  readonly statusContext?: string;
+  readonly failureState?: string;
+  readonly successDescription?: string;
+  readonly failureDescription?: string;
+  readonly bypassDescription?: string;
+  readonly mode?: string;
+  readonly warnComment?: string;
+  readonly prNumber?: string;
+  readonly autoFixTitle?: string;
+  readonly autoFixTitleFormat?: string;
 }
 
 /**
@@ -53,8 +86,21 @@ describe('jira-integration Action', () => {
   let mockCreateComment: ReturnType<typeof vi.fn>;
   let mockUpdateComment: ReturnType<typeof vi.fn>;
   let mockListComments: ReturnType<typeof vi.fn>;
+  let mockDeleteComment: ReturnType<typeof vi.fn>;
+  let mockGraphql: ReturnType<typeof vi.fn>;
   let mockCreateCommitStatus: ReturnType<typeof vi.fn>;
+  let mockCreateCheckRun: ReturnType<typeof vi.fn>;
   let mockListLabelsOnIssue: ReturnType<typeof vi.fn>;
+  let mockListCommits: ReturnType<typeof vi.fn>;
+  let mockGetPullRequest: ReturnType<typeof vi.fn>;
+  let mockUpdatePullRequest: ReturnType<typeof vi.fn>;
+  let mockGetTeamMembership: ReturnType<typeof vi.fn>;
+  let mockGetContent: ReturnType<typeof vi.fn>;
+  let mockPaginate: ReturnType<typeof vi.fn>;
+  let mockPaginateIterator: ReturnType<typeof vi.fn>;
+  let mockSummaryAddHeading: MockInstance<typeof core.summary.addHeading>;
+  let mockSummaryAddTable: MockInstance<typeof core.summary.addTable>;
+  let mockSummaryWrite: MockInstance<typeof core.summary.write>;
 
   let testData: TestData;
 
@@ -70,10 +116,76 @@ describe('jira-integration Action', () => {
           return options.jiraBaseUrl ?? testData.jiraBaseUrl;
         case 'jira-issue-pattern':
           return options.jiraIssuePattern ?? testData.jiraPattern;
+        case 'jira-projects':
+          return options.jiraProjects ?? '';
+        case 'case-insensitive-keys':
+          return options.caseInsensitiveKeys ?? '';
+        case 'require-word-boundaries':
+          return options.requireWordBoundaries ?? '';
+        case 'key-position':
+          return options.keyPosition ?? '';
         case 'bypass-labels':
           return options.bypassLabels ?? '';
         case 'bypass-users':
           return options.bypassUsers ?? '';
+        case 'bypass-branches':
+          return options.bypassBranches ?? '';
+        case 'bypass-teams':
+          return options.bypassTeams ?? '';
+        case 'bypass-author-associations':
+          return options.bypassAuthorAssociations ?? '';
+        case 'bypass-bots':
+          return options.bypassBots ?? '';
+        case 'jira-email':
+          return options.jiraEmail ?? '';
+        case 'jira-api-token':
+          return options.jiraApiToken ?? '';
+        case 'allowed-statuses':
+          return options.allowedStatuses ?? '';
+        case 'allowed-issue-types':
+          return options.allowedIssueTypes ?? '';
+        case 'transition-on-opened':
+          return options.transitionOnOpened ?? '';
+        case 'transition-on-ready-for-review':
+          return options.transitionOnReadyForReview ?? '';
+        case 'transition-on-merged':
+          return options.transitionOnMerged ?? '';
+        case 'jira-backlink':
+          return options.jiraBacklink ?? '';
+        case 'search-in':
+          return options.searchIn ?? '';
+        case 'require-jira-in-commits':
+          return options.requireJiraInCommits ?? '';
+        case 'exempt-merge-commits':
+          return options.exemptMergeCommits ?? '';
+        case 'exempt-bot-commits':
+          return options.exemptBotCommits ?? '';
+        case 'comment-template':
+          return options.commentTemplate ?? '';
+        case 'stale-comment':
+          return options.staleComment ?? '';
+        case 'report-as':
+          return options.reportAs ?? '';
+        case 'status-context':
+          return options.statusContext ?? '';
+        case 'failure-state':
+          return options.failureState ?? '';
+        case 'success-description':
+          return options.successDescription ?? '';
+        case 'failure-description':
+          return options.failureDescription ?? '';
+        case 'bypass-description':
+          return options.bypassDescription ?? '';
+        case 'mode':
+          return options.mode ?? '';
+        case 'warn-comment':
+          return options.warnComment ?? '';
+        case 'pr-number':
+          return options.prNumber ?? '';
+        case 'auto-fix-title':
+          return options.autoFixTitle ?? '';
+        case 'auto-fix-title-format':
+          return options.autoFixTitleFormat ?? '';
         default:
           return '';
       }
@@ -88,12 +200,15 @@ describe('jira-integration Action', () => {
     Object.defineProperty(github, 'context', {
       value: {
         eventName: 'pull_request',
+        serverUrl: 'https://github.com',
         repo: { owner: data.owner, repo: data.repo },
         issue: { number: data.prNumber },
         payload: {
           pull_request: {
             title: data.prTitleWithJira,
-            head: { sha: data.prSha },
+            head: { sha: data.prSha, ref: `feature/${faker.lorem.slug(2)}` },
+            base: { ref: 'master' },
+            body: faker.lorem.paragraph(),
             user: { login: data.nonBypassUser }, // Default to non-bypass user
           },
         },
@@ -102,6 +217,28 @@ describe('jira-integration Action', () => {
     });
   };
 
+  /**
+   * Serves a paginated listing as the given pages, returning a function reporting how many pages were read
+   */
+  const mockPages = (...pages: readonly (readonly unknown[])[]) => {
+    let pagesRead = 0;
+    mockPaginateIterator.mockImplementation(async function* () {
+      for (const page of pages) {
+        pagesRead++;
+        yield await Promise.resolve({ data: page });
+      }
+    });
+    return () => pagesRead;
+  };
+
+  /**
+   * Asserts that an input was rejected with an error annotation naming it
+   */
+  const expectInputError = (input: string, message: unknown) => {
+    expect(vi.mocked(core.error)).toHaveBeenCalledWith(message, { title: `Invalid ${input} input` });
+    expect(mockSetFailed).toHaveBeenCalledWith(expect.stringMatching(new RegExp(`^Invalid action inputs: .*${input}`)));
+  };
+
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
@@ -132,20 +269,56 @@ describe('jira-integration Action', () => {
     mockUpdateComment = vi.fn();
     mockListComments = vi.fn();
     mockCreateCommitStatus = vi.fn();
+    mockCreateCheckRun = vi.fn();
+    mockDeleteComment = vi.fn();
+    mockGraphql = vi.fn();
     mockListLabelsOnIssue = vi.fn();
+    mockListCommits = vi.fn();
+    mockGetPullRequest = vi.fn();
+    mockUpdatePullRequest = vi.fn();
+    mockGetTeamMembership = vi.fn();
+    // By default neither the repository nor the organization has a config file
+    mockGetContent = vi.fn().mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 }));
+    mockPaginate = vi.fn();
+    // By default every listing fits in a single page, read through the wrapped API method
+    mockPaginateIterator = vi.fn(async function* (method: (params: unknown) => Promise<unknown>, params: unknown) {
+      yield await method(params);
+    });
+
+    // Summary methods are chainable
+    mockSummaryAddHeading = vi.spyOn(core.summary, 'addHeading').mockReturnValue(core.summary);
+    mockSummaryAddTable = vi.spyOn(core.summary, 'addTable').mockReturnValue(core.summary);
+    mockSummaryWrite = vi.spyOn(core.summary, 'write').mockResolvedValue(core.summary);
 
     mockGetOctokit = vi.mocked(github.getOctokit);
     mockGetOctokit.mockReturnValue(
       fromPartial({
+        graphql: mockGraphql as unknown as ReturnType<typeof github.getOctokit>['graphql'],
+        paginate: Object.assign(mockPaginate, { iterator: mockPaginateIterator }) as unknown as ReturnType<typeof github.getOctokit>['paginate'],
         rest: {
           issues: {
             createComment: mockCreateComment as unknown as ReturnType<typeof github.getOctokit>['rest']['issues']['createComment'],
             updateComment: mockUpdateComment as unknown as ReturnType<typeof github.getOctokit>['rest']['issues']['updateComment'],
             listComments: mockListComments as unknown as ReturnType<typeof github.getOctokit>['rest']['issues']['listComments'],
+            deleteComment: mockDeleteComment as unknown as ReturnType<typeof github.getOctokit>['rest']['issues']['deleteComment'],
             listLabelsOnIssue: mockListLabelsOnIssue as unknown as ReturnType<typeof github.getOctokit>['rest']['issues']['listLabelsOnIssue'],
           },
           repos: {
             createCommitStatus: mockCreateCommitStatus as unknown as ReturnType<typeof github.getOctokit>['rest']['repos']['createCommitStatus'],
+            getContent: mockGetContent as unknown as ReturnType<typeof github.getOctokit>['rest']['repos']['getContent'],
+          },
+          checks: {
+            create: mockCreateCheckRun as unknown as ReturnType<typeof github.getOctokit>['rest']['checks']['create'],
+          },
+          teams: {
+            getMembershipForUserInOrg: mockGetTeamMembership as unknown as ReturnType<
+              typeof github.getOctokit
+            >['rest']['teams']['getMembershipForUserInOrg'],
+          },
+          pulls: {
+            listCommits: mockListCommits as unknown as ReturnType<typeof github.getOctokit>['rest']['pulls']['listCommits'],
+            get: mockGetPullRequest as unknown as ReturnType<typeof github.getOctokit>['rest']['pulls']['get'],
+            update: mockUpdatePullRequest as unknown as ReturnType<typeof github.getOctokit>['rest']['pulls']['update'],
           },
         },
       })
@@ -157,6 +330,7 @@ describe('jira-integration Action', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
   });
 
   /**
@@ -188,7 +362,7 @@ describe('jira-integration Action', () => {
       owner: testData.owner,
       repo: testData.repo,
       issue_number: testData.prNumber,
-      body: `🎫 **Related Jira Issue**: [${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue})`,
+      body: `🎫 **Related Jira Issue**: [${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue})\n<!-- jira-integration:pr-link keys=${extractedJiraIssue} -->`,
     });
 
     expect(mockSetFailed).not.toHaveBeenCalled();
@@ -251,12 +425,84 @@ describe('jira-integration Action', () => {
       repo: testData.repo,
       // eslint-disable-next-line @typescript-eslint/naming-convention
       comment_id: existingCommentId,
-      body: `🎫 **Related Jira Issue**: [${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue})`,
+      body: `🎫 **Related Jira Issue**: [${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue})\n<!-- jira-integration:pr-link keys=${extractedJiraIssue} -->`,
+    });
+
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test finding the comment through the hidden marker when another identity posted it
+   */
+  it('should update a marked Jira comment posted by any author', async () => {
+    const existingCommentId = faker.number.int({ min: 100, max: 999 });
+    mockListComments.mockResolvedValue({
+      data: [
+        {
+          id: faker.number.int({ min: 1000, max: 1999 }),
+          user: { login: 'github-actions[bot]' },
+          body: '🎫 **Related Jira Issue**: [MAPCO-1](url)',
+        },
+        { id: existingCommentId, user: { login: 'my-app[bot]' }, body: 'MAPCO-1\n<!-- jira-integration:pr-link -->' },
+      ],
     });
+    mockGetInput.mockImplementation(createMockGetInput());
+
+    await run();
 
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId }));
+    expect(mockUpdateComment).toHaveBeenCalledTimes(1);
     expect(mockCreateComment).not.toHaveBeenCalled();
   });
 
+  /**
+   * Test finding the comment on a later page without reading further pages
+   */
+  it('should stop reading comment pages once the marked Jira comment is found', async () => {
+    const existingCommentId = faker.number.int({ min: 100, max: 999 });
+    const legacyComment = {
+      id: faker.number.int({ min: 1000, max: 1999 }),
+      user: { login: 'github-actions[bot]' },
+      body: '🎫 **Related Jira Issue**: old',
+    };
+    const otherComments = Array.from({ length: 30 }, () => ({
+      id: faker.number.int(),
+      user: { login: faker.internet.username() },
+      body: faker.lorem.sentence(),
+    }));
+    const markedComment = { id: existingCommentId, user: { login: 'github-actions[bot]' }, body: `MAPCO-1\n<!-- jira-integration:pr-link -->` };
+    const getPagesRead = mockPages([legacyComment, ...otherComments], [markedComment], otherComments);
+    mockGetInput.mockImplementation(createMockGetInput());
+
+    await run();
+
+    expect(mockPaginateIterator).toHaveBeenCalledWith(mockListComments, {
+      owner: testData.owner,
+      repo: testData.repo,
+      issue_number: testData.prNumber,
+    });
+    expect(getPagesRead()).toBe(2);
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId }));
+    expect(mockCreateComment).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test that unmarked comments by other users are left alone
+   */
+  it('should not treat unmarked comments from other users as the Jira comment', async () => {
+    mockListComments.mockResolvedValue({
+      data: [{ id: faker.number.int({ min: 100, max: 999 }), user: { login: testData.nonBypassUser }, body: '🎫 **Related Jira Issue**: quoted' }],
+    });
+    mockGetInput.mockImplementation(createMockGetInput());
+
+    await run();
+
+    expect(mockUpdateComment).not.toHaveBeenCalled();
+    expect(mockCreateComment).toHaveBeenCalled();
+  });
+
   describe('Input Validation', () => {
     /**
      * Test action fails when GitHub token is missing
@@ -279,35 +525,2437 @@ describe('jira-integration Action', () => {
 
       await run();
 
-      expect(mockSetFailed).toHaveBeenCalledWith('Jira base URL is required');
+      expectInputError('jira-base-url', 'Jira base URL is required');
       expect(mockCreateCommitStatus).not.toHaveBeenCalled();
       expect(mockCreateComment).not.toHaveBeenCalled();
     });
+
+    /**
+     * Test that the Jira base URL must be an http or https URL
+     */
+    it.each(['mapcolonies.atlassian.net', 'ftp://mapcolonies.atlassian.net'])('should fail when Jira base URL is %s', async (jiraBaseUrl) => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraBaseUrl }));
+
+      await run();
+
+      expectInputError('jira-base-url', `jira-base-url must be an http or https URL, got "${jiraBaseUrl}"`);
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that trailing slashes of the Jira base URL do not end up in issue links
+     */
+    it('should remove trailing slashes from the Jira base URL', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraBaseUrl: `${testData.jiraBaseUrl}//` }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 'success',
+          target_url: expect.stringMatching(new RegExp(`^${testData.jiraBaseUrl}/browse/MAPCO-\\d+$`)) as unknown,
+        })
+      );
+    });
+
+    /**
+     * Test that an invalid jira-issue-pattern is reported before any pull request is checked
+     */
+    it('should fail when jira-issue-pattern is not a valid regular expression', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: 'MAPCO-(\\d+' }));
+
+      await run();
+
+      expectInputError('jira-issue-pattern', expect.stringMatching(/^jira-issue-pattern is not a valid regular expression: /));
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that patterns which only break once embedded for the key position are rejected upfront
+     */
+    it.each(['prefix', 'scope'])('should fail when jira-issue-pattern cannot be used with key-position %s', async (keyPosition) => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '(?<project>MAPCO)-\\d+', keyPosition }));
+
+      await run();
+
+      expectInputError(
+        'jira-issue-pattern',
+        expect.stringMatching(
+          new RegExp(`^jira-issue-pattern cannot be used with key-position ${keyPosition}, avoid named groups and backreferences: `)
+        )
+      );
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that lists with empty entries are rejected
+     */
+    it.each([
+      ['bypassLabels', 'bypass-labels', 'skip-jira,,hotfix'],
+      ['bypassUsers', 'bypass-users', 'renovate[bot],'],
+      ['searchIn', 'search-in', 'title, ,branch'],
+    ] as const)('should fail when %s has an empty entry', async (option, input, value) => {
+      mockGetInput.mockImplementation(createMockGetInput({ [option]: value }));
+
+      await run();
+
+      expectInputError(input, `${input} contains an empty entry, separate values with a single comma`);
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that boolean inputs only accept true or false
+     */
+    it.each([
+      ['bypassBots', 'bypass-bots', 'yes'],
+      ['warnComment', 'warn-comment', '1'],
+      ['autoFixTitle', 'auto-fix-title', 'ture'],
+    ] as const)('should fail when %s is not true or false', async (option, input, value) => {
+      mockGetInput.mockImplementation(createMockGetInput({ [option]: value }));
+
+      await run();
+
+      expectInputError(input, `${input} must be true or false, got "${value}"`);
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that boolean inputs are not case-sensitive
+     */
+    it('should accept boolean inputs in any case', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ bypassBots: 'TRUE', warnComment: 'False' }));
+      mockListComments.mockResolvedValue({ data: [] });
+
+      await run();
+
+      expect(mockSetFailed).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that every invalid input is reported, not only the first one
+     */
+    it('should report every invalid input', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraBaseUrl: 'not a url', mode: 'strict', bypassTeams: 'devops' }));
+
+      await run();
+
+      expect(vi.mocked(core.error)).toHaveBeenCalledTimes(3);
+      expect(vi.mocked(core.error)).toHaveBeenCalledWith('mode must be one of: enforce, warn, off', { title: 'Invalid mode input' });
+      expect(mockSetFailed).toHaveBeenCalledWith('Invalid action inputs: jira-base-url, mode, bypass-teams');
+    });
   });
 
-  describe('GitHub Context Validation', () => {
+  describe('Repository Config', () => {
     /**
-     * Test warning when not running on pull request event
+     * Serves the given YAML as the content of the next config file read
      */
-    it('should warn when not running on pull request event', async () => {
-      Object.defineProperty(github, 'context', {
-        value: {
-          eventName: 'push',
-          repo: {
-            owner: testData.owner,
-            repo: testData.repo,
-          },
-        },
-        writable: true,
+    const mockConfigFile = (content: string) => {
+      mockGetContent.mockResolvedValueOnce({ data: { type: 'file', content: Buffer.from(content).toString('base64') } });
+    };
+
+    /**
+     * Test that inputs missing from the workflow are read from the repository config file
+     */
+    it('should read unset inputs from the repository config file', async () => {
+      const issueKey = `PROJ-${faker.number.int({ min: 1000, max: 9999 })}`;
+      setupGitHubContext({ prTitleWithJira: `feat: ${issueKey} - ${faker.lorem.words(3)}` });
+      mockConfigFile(`jira-issue-pattern: 'PROJ-\\d+'\nbypass-labels:\n  - skip-jira\n  - hotfix\nrequire-jira-in-commits: false\n`);
+      mockListLabelsOnIssue.mockResolvedValue({ data: [{ name: 'enhancement' }] });
+      mockListComments.mockResolvedValue({ data: [] });
+      mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '' }));
+
+      await run();
+
+      expect(mockGetContent).toHaveBeenCalledWith({ owner: testData.owner, repo: testData.repo, path: '.github/jira-integration.yml' });
+      expect(vi.mocked(core.info)).toHaveBeenCalledWith(
+        `Using Jira integration config from ${testData.owner}/${testData.repo}/.github/jira-integration.yml`
+      );
+      expect(mockListLabelsOnIssue).toHaveBeenCalled();
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issue', issueKey);
+    });
+
+    /**
+     * Test that inputs set in the workflow take precedence over the config file
+     */
+    it('should prefer inputs set in the workflow over the config file', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockConfigFile(`bypass-users: '${testData.nonBypassUser}'\n`);
+      mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: testData.bypassUser }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that the organization's .github repository is used when the repository has no config file
+     */
+    it("should fall back to the organization's .github repository", async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetContent.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }));
+      mockConfigFile('bypass-bots: true\nmode: warn\n');
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockGetContent).toHaveBeenLastCalledWith({ owner: testData.owner, repo: '.github', path: '.github/jira-integration.yml' });
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: expect.stringMatching(/^Warning: /) as unknown })
+      );
+    });
+
+    /**
+     * Test that an empty config file configures nothing
+     */
+    it('should accept an empty config file', async () => {
+      mockConfigFile('');
+      mockListComments.mockResolvedValue({ data: [] });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockSetFailed).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that unknown keys in the config file are rejected
+     */
+    it('should fail when the config file contains an unknown key', async () => {
+      mockConfigFile('jira-api-token: secret\n');
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expectInputError(
+        'jira-api-token',
+        `${testData.owner}/${testData.repo}/.github/jira-integration.yml contains unknown key "jira-api-token", expected any of: jira-issue-pattern, bypass-users, bypass-labels, bypass-branches, bypass-teams, bypass-author-associations, bypass-bots, search-in, allowed-statuses, allowed-issue-types, require-jira-in-commits, jira-projects, case-insensitive-keys, require-word-boundaries, key-position, auto-fix-title, auto-fix-title-format, mode`
+      );
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that values of the wrong type are rejected
+     */
+    it('should fail when a config value has the wrong type', async () => {
+      mockConfigFile('bypass-users:\n  - 42\n');
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expectInputError(
+        'bypass-users',
+        `bypass-users in ${testData.owner}/${testData.repo}/.github/jira-integration.yml must be a list of strings or a comma-separated string`
+      );
+    });
+
+    /**
+     * Test that boolean keys only accept YAML booleans
+     */
+    it('should fail when a boolean config value is not true or false', async () => {
+      mockConfigFile("bypass-bots: 'yes'\n");
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expectInputError('bypass-bots', `bypass-bots in ${testData.owner}/${testData.repo}/.github/jira-integration.yml must be true or false`);
+    });
+
+    /**
+     * Test that every problem in the config file is reported, along with the problems in the workflow inputs
+     */
+    it('should report every invalid config key and input', async () => {
+      const source = `${testData.owner}/${testData.repo}/.github/jira-integration.yml`;
+      mockConfigFile("bypass-bots: 'yes'\njira-api-token: secret\nsearch-in: [title]\n");
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'strict' }));
+
+      await run();
+
+      expect(vi.mocked(core.error)).toHaveBeenCalledTimes(3);
+      expect(vi.mocked(core.error)).toHaveBeenCalledWith(`bypass-bots in ${source} must be true or false`, { title: 'Invalid bypass-bots input' });
+      expect(vi.mocked(core.error)).toHaveBeenCalledWith(expect.stringMatching(/contains unknown key "jira-api-token"/), {
+        title: 'Invalid jira-api-token input',
       });
+      expect(mockSetFailed).toHaveBeenCalledWith('Invalid action inputs: bypass-bots, jira-api-token, mode');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that a directory at the config file path is not read as a config file
+     */
+    it('should ignore a directory at the config file path', async () => {
+      mockGetContent.mockResolvedValueOnce({ data: [] }).mockResolvedValueOnce({ data: { type: 'dir' } });
+      mockListComments.mockResolvedValue({ data: [] });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockGetContent).toHaveBeenCalledTimes(2);
+      expect(mockSetFailed).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that config files which are not a mapping are rejected
+     */
+    it('should fail when the config file is not a mapping', async () => {
+      mockConfigFile('- skip-jira\n');
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      const source = `${testData.owner}/${testData.repo}/.github/jira-integration.yml`;
+      expectInputError(source, `${source} must map input names to values`);
+    });
+
+    /**
+     * Test that invalid YAML is reported with the file it was read from
+     */
+    it('should fail when the config file is not valid YAML', async () => {
+      mockConfigFile('bypass-users: [dependabot\n');
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expectInputError(
+        `${testData.owner}/${testData.repo}/.github/jira-integration.yml`,
+        expect.stringMatching(new RegExp(`^${testData.owner}/${testData.repo}/\\.github/jira-integration\\.yml is not valid YAML: `))
+      );
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that errors other than a missing config file fail the action
+     */
+    it('should fail when the config file cannot be read', async () => {
+      mockGetContent.mockRejectedValueOnce(Object.assign(new Error('Server Error'), { status: 500 }));
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockSetFailed).toHaveBeenCalledWith('Action failed: Server Error');
+    });
+
+    /**
+     * Test that a token without the contents: read permission does not block validation
+     */
+    it('should validate without a config file when the token cannot read it', async () => {
+      mockGetContent.mockRejectedValue(Object.assign(new Error('Resource not accessible by integration'), { status: 403 }));
+      mockListComments.mockResolvedValue({ data: [] });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockWarning).toHaveBeenCalledWith(
+        `Could not read ${testData.owner}/${testData.repo}/.github/jira-integration.yml, add the contents: read permission to use a config file`
+      );
+      expect(mockSetFailed).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+  });
+
+  describe('Search Sources', () => {
+    beforeEach(() => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that only the title is searched by default
+     */
+    it('should only search the PR title by default', async () => {
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}-${faker.lorem.slug(2)}` };
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'error', description: 'Jira issue required in PR title (format: MAPCO-1234)' })
+      );
+    });
+
+    /**
+     * Test finding the issue in the branch name
+     */
+    it('should find the Jira issue in the branch name and record the source', async () => {
+      const jiraUrl = `${testData.jiraBaseUrl}/browse/${testData.jiraIssue}`;
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}-${faker.lorem.slug(2)}` };
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'title,branch' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', target_url: jiraUrl, description: 'Jira issue found in branch name' })
+      );
+      expect(mockCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: `🎫 **Related Jira Issue**: [${testData.jiraIssue}](${jiraUrl}) _(from branch name)_\n<!-- jira-integration:pr-link keys=${testData.jiraIssue} -->`,
+        })
+      );
+    });
+
+    /**
+     * Test that sources are searched in the configured order
+     */
+    it('should use the first configured source that references a Jira issue', async () => {
+      const bodyIssue = `MAPCO-${faker.number.int({ min: 10000, max: 19999 })}`;
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}` };
+      github.context.payload.pull_request!.body = `Implements ${bodyIssue}`;
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'body,branch' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ description: 'Jira issue found in PR description' }));
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([bodyIssue]));
+    });
+
+    /**
+     * Test PRs without a description
+     */
+    it('should treat a missing PR description as empty', async () => {
+      github.context.payload.pull_request!.body = null as unknown as undefined;
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'body' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'error', description: 'Jira issue required in PR description (format: MAPCO-1234)' })
+      );
+    });
+
+    /**
+     * Test finding the issue in commit messages
+     */
+    it('should find the Jira issue in commit messages', async () => {
+      mockPaginate.mockResolvedValue([
+        { sha: faker.git.commitSha(), commit: { message: faker.git.commitMessage() }, parents: [], author: null },
+        { sha: faker.git.commitSha(), commit: { message: `fix: ${testData.jiraIssue} typo` }, parents: [], author: null },
+      ]);
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'title,commits' }));
+
+      await run();
+
+      expect(mockPaginate).toHaveBeenCalledWith(mockListCommits, {
+        owner: testData.owner,
+        repo: testData.repo,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        pull_number: testData.prNumber,
+      });
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: 'Jira issue found in commit messages' })
+      );
+    });
+
+    /**
+     * Test the failure description lists every searched source
+     */
+    it('should list every searched source when no Jira issue is found', async () => {
+      mockPaginate.mockResolvedValue([]);
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'title, branch, commits' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 'error',
+          description: 'Jira issue required in PR title or branch name or commit messages (format: MAPCO-1234)',
+        })
+      );
+      expect(mockWarning).toHaveBeenCalledWith('No Jira issue found in PR title or branch name or commit messages');
+    });
+
+    /**
+     * Test unknown sources
+     */
+    it('should fail when search-in contains an unknown source', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'title,labels' }));
+
+      await run();
+
+      expectInputError('search-in', 'search-in contains unknown source "labels", expected any of: title, branch, body, commits');
+    });
+
+    /**
+     * Test empty source lists
+     */
+    it('should fail when search-in lists no source', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: ' , ' }));
+
+      await run();
+
+      expectInputError('search-in', 'search-in must list at least one of: title, branch, body, commits');
+    });
+  });
+
+  describe('Key Matching', () => {
+    let issueNumber: number;
+
+    beforeEach(() => {
+      issueNumber = faker.number.int({ min: 1000, max: 9999 });
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that keys are matched case-sensitively by default
+     */
+    it('should not match lower case keys by default', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: mapco-${issueNumber} - ${faker.lorem.words(3)}` });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that keys matched case-insensitively are normalized to upper case
+     */
+    it('should match keys case-insensitively and normalize them to upper case', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: mapco-${issueNumber} and Mapco-${issueNumber} - ${faker.lorem.words(3)}` });
+      mockGetInput.mockImplementation(createMockGetInput({ caseInsensitiveKeys: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', target_url: `${testData.jiraBaseUrl}/browse/MAPCO-${issueNumber}` })
+      );
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([`MAPCO-${issueNumber}`]));
+    });
+
+    /**
+     * Test that word boundaries reject keys that are part of a longer word
+     */
+    it.each([
+      ['feat: FOO-MAPCO-1234-bar', 'error'],
+      ['feat: XMAPCO-1234 - add login', 'error'],
+      ['feat: MAPCO-1234 - add login', 'success'],
+      ['feat: add login (MAPCO-1234)', 'success'],
+    ])('should report %j as %s when word boundaries are required', async (prTitle, expectedState) => {
+      setupGitHubContext({ prTitleWithJira: prTitle });
+      mockGetInput.mockImplementation(createMockGetInput({ requireWordBoundaries: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: expectedState }));
+    });
+
+    /**
+     * Test that the key position constrains where keys may appear in the title
+     */
+    it.each([
+      ['prefix', 'MAPCO-1234: add login', ['MAPCO-1234']],
+      ['prefix', 'MAPCO-1234, MAPCO-5678: add login', ['MAPCO-1234', 'MAPCO-5678']],
+      ['prefix', 'feat: MAPCO-1234 add login', []],
+      ['prefix', 'feat(MAPCO-1234): add login', []],
+      ['scope', 'feat(MAPCO-1234): add login', ['MAPCO-1234']],
+      ['scope', 'fix(MAPCO-1234,MAPCO-5678)!: drop legacy login', ['MAPCO-1234', 'MAPCO-5678']],
+      ['scope', 'MAPCO-1234: add login', []],
+      ['scope', 'feat(auth): add login for MAPCO-1234', []],
+    ])('should match keys in the %s of %j', async (keyPosition, prTitle, expectedIssues) => {
+      setupGitHubContext({ prTitleWithJira: prTitle });
+      mockGetInput.mockImplementation(createMockGetInput({ keyPosition }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: expectedIssues.length > 0 ? 'success' : 'error' }));
+      if (expectedIssues.length > 0) {
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify(expectedIssues));
+      }
+    });
+
+    /**
+     * Test that the key position only applies to the title
+     */
+    it('should search other sources anywhere when a key position is required', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: MAPCO-${issueNumber} add login` });
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/MAPCO-${issueNumber}-login` };
+      mockGetInput.mockImplementation(createMockGetInput({ keyPosition: 'prefix', searchIn: 'title,branch' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: 'Jira issue found in branch name' })
+      );
+    });
+
+    /**
+     * Test that word boundaries only apply to the title, so branch names can run the key into words
+     */
+    it('should match keys in the branch name when word boundaries are required', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/MAPCO-${issueNumber}-fix-login` };
+      mockGetInput.mockImplementation(createMockGetInput({ requireWordBoundaries: 'true', searchIn: 'branch' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: 'Jira issue found in branch name' })
+      );
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([`MAPCO-${issueNumber}`]));
+    });
+
+    /**
+     * Test that word boundaries do not apply to commit messages
+     */
+    it('should accept commits that run the key into words when word boundaries are required', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: MAPCO-${issueNumber} add login` });
+      mockPaginate.mockResolvedValue([
+        { sha: faker.git.commitSha(), commit: { message: `MAPCO-${issueNumber}-fix login` }, parents: [], author: null },
+      ]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireWordBoundaries: 'true', requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that an unknown key position is rejected
+     */
+    it('should fail when key-position is unknown', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ keyPosition: 'suffix' }));
+
+      await run();
+
+      expectInputError('key-position', 'key-position must be one of: anywhere, prefix, scope');
+    });
+  });
+
+  describe('Title Auto-fix', () => {
+    beforeEach(() => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}-${faker.lorem.slug(2)}` };
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that titles are left alone unless auto-fix-title is enabled
+     */
+    it('should not update the PR title by default', async () => {
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that the key from the branch name is appended to the title and the pull request is validated again
+     */
+    it('should add the Jira issue from the branch name to the PR title', async () => {
+      const fixedTitle = `${testData.prTitleWithoutJira} (${testData.jiraIssue})`;
+      const jiraUrl = `${testData.jiraBaseUrl}/browse/${testData.jiraIssue}`;
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        pull_number: testData.prNumber,
+        title: fixedTitle,
+      });
+      expect(mockCreateCommitStatus).toHaveBeenCalledTimes(1);
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', target_url: jiraUrl, description: 'Jira issue found in PR title' })
+      );
+      expect(mockCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: `🎫 **Related Jira Issue**: [${testData.jiraIssue}](${jiraUrl})\n_Added ${testData.jiraIssue} from the branch name to the PR title_\n<!-- jira-integration:pr-link keys=${testData.jiraIssue} -->`,
+        })
+      );
+    });
+
+    /**
+     * Test that the title format is configurable
+     */
+    it('should format the PR title with auto-fix-title-format', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', autoFixTitleFormat: '{{key}}: {{title}}' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).toHaveBeenCalledWith(expect.objectContaining({ title: `${testData.jiraIssue}: ${testData.prTitleWithoutJira}` }));
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that titles are left alone when the branch name does not reference an issue either
+     */
+    it('should not update the PR title when the branch name has no Jira issue', async () => {
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${faker.lorem.slug(2)}` };
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that titles which already reference an issue are left alone
+     */
+    it('should not update a PR title that already references a Jira issue', async () => {
+      setupGitHubContext();
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ body: expect.not.stringContaining('from the branch name') as unknown })
+      );
+    });
+
+    /**
+     * Test that a title format that would drop the key or the title is rejected
+     */
+    it('should fail when auto-fix-title-format is missing a placeholder', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', autoFixTitleFormat: '[{{key}}]' }));
+
+      await run();
+
+      expectInputError('auto-fix-title-format', 'auto-fix-title-format must contain {{key}} and {{title}}');
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that a second run on a fixed title leaves it alone
+     */
+    it('should not add the Jira issue again to a title it already fixed', async () => {
+      setupGitHubContext({ prTitleWithJira: `${testData.prTitleWithoutJira} (${testData.jiraIssue})` });
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}-${faker.lorem.slug(2)}` };
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that the default format follows a prefix key position
+     */
+    it('should prefix the PR title with the Jira issue when key-position is prefix', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', keyPosition: 'prefix' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).toHaveBeenCalledWith(expect.objectContaining({ title: `${testData.jiraIssue}: ${testData.prTitleWithoutJira}` }));
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that a scope key position works with a format putting the key in the scope
+     */
+    it('should put the Jira issue in the scope when the format does', async () => {
+      mockGetInput.mockImplementation(
+        createMockGetInput({ autoFixTitle: 'true', keyPosition: 'scope', autoFixTitleFormat: 'chore({{key}}): {{title}}' })
+      );
+
+      await run();
+
+      expect(mockUpdatePullRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ title: `chore(${testData.jiraIssue}): ${testData.prTitleWithoutJira}` })
+      );
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test that a format which does not fit the key position is rejected upfront
+     */
+    it.each([
+      ['scope', ''],
+      ['prefix', '{{title}} ({{key}})'],
+    ])('should fail when auto-fix-title-format does not fit key-position %s', async (keyPosition, autoFixTitleFormat) => {
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', keyPosition, autoFixTitleFormat }));
+
+      await run();
+
+      expectInputError('auto-fix-title-format', `auto-fix-title-format must put the Jira issue key where key-position ${keyPosition} expects it`);
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that a title referencing an issue in the wrong place is left to the author
+     */
+    it('should not update a PR title that references a Jira issue outside the key position', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: add login (${testData.jiraIssue})` });
+      github.context.payload.pull_request!.head = { sha: testData.prSha, ref: `feature/${testData.jiraIssue}` };
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', keyPosition: 'prefix' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that titles are left alone when the title is not searched
+     */
+    it('should not update the PR title when search-in does not include the title', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ autoFixTitle: 'true', searchIn: 'body' }));
+
+      await run();
+
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+
+    /**
+     * Test that titles are left alone when the fixed title would still fail validation
+     */
+    it('should not update the PR title when the fixed title would still fail', async () => {
+      // No sample key can be derived from this pattern, so the format is only checked against the real title
+      mockGetInput.mockImplementation(
+        createMockGetInput({
+          autoFixTitle: 'true',
+          jiraIssuePattern: 'MAPCO-[1-9]\\d*',
+          keyPosition: 'prefix',
+          autoFixTitleFormat: '{{title}} ({{key}})',
+        })
+      );
+
+      await run();
+
+      expect(mockSetFailed).not.toHaveBeenCalled();
+      expect(mockUpdatePullRequest).not.toHaveBeenCalled();
+      expect(mockWarning).toHaveBeenCalledWith(expect.stringMatching(/would still fail validation, leaving the PR title as is$/));
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+    });
+  });
+
+  describe('Commit Enforcement', () => {
+    /**
+     * Builds a pull request commit as returned by the GitHub API
+     */
+    const createCommit = (message: string, options: { parents?: number; authorLogin?: string; authorType?: string } = {}) => ({
+      sha: faker.git.commitSha(),
+      commit: { message },
+      parents: Array.from({ length: options.parents ?? 1 }, () => ({ sha: faker.git.commitSha() })),
+      author: { login: options.authorLogin ?? faker.internet.username(), type: options.authorType ?? 'User' },
+    });
+
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that commits are not listed unless enforcement is enabled
+     */
+    it('should not list commits when per-commit enforcement is disabled', async () => {
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockPaginate).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test a PR where every commit references a Jira issue
+     */
+    it('should set success status when every commit references a Jira issue', async () => {
+      mockPaginate.mockResolvedValue([createCommit(`feat: ${testData.jiraIssue} add login`), createCommit(`fix(${testData.jiraIssue}): typo`)]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success', description: 'Jira issue found in PR title' }));
+      expect(mockSummaryAddHeading).not.toHaveBeenCalledWith('Commits without a Jira issue', 3);
+    });
+
+    /**
+     * Test that the commits are listed once when they are both searched and enforced
+     */
+    it('should list the commits once when they are searched for Jira issues and enforced', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockPaginate.mockResolvedValue([createCommit(`feat: ${testData.jiraIssue} add login`)]);
+      mockGetInput.mockImplementation(createMockGetInput({ searchIn: 'title,commits', requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockPaginate).toHaveBeenCalledTimes(1);
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: 'Jira issue found in commit messages' })
+      );
+    });
+
+    /**
+     * Test a PR with commits that do not reference a Jira issue
+     */
+    it('should set failure status and report every offending commit in the job summary', async () => {
+      const offendingCommit = createCommit('chore: <update> deps\n\nlonger description');
+      mockPaginate.mockResolvedValue([createCommit(`feat: ${testData.jiraIssue} add login`), offendingCommit]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'TRUE' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 'failure',
+          target_url: undefined,
+          description: '1 of 2 commits do not reference a Jira issue (format: MAPCO-1234)',
+        })
+      );
+      expect(mockWarning).toHaveBeenCalledWith(`Commit ${offendingCommit.sha} does not reference a Jira issue: chore: <update> deps`);
+      expect(mockSummaryAddTable).toHaveBeenCalledWith([
+        [
+          { data: 'Commit', header: true },
+          { data: 'Message', header: true },
+        ],
+        [`<code>${offendingCommit.sha.slice(0, 7)}</code>`, 'chore: &lt;update&gt; deps'],
+      ]);
+      expect(mockSummaryWrite).toHaveBeenCalled();
+    });
+
+    /**
+     * Test that a missing issue in the title takes precedence over commit problems
+     */
+    it('should report the missing title issue before offending commits', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockPaginate.mockResolvedValue([createCommit('chore: update deps')]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'error', description: 'Jira issue required in PR title (format: MAPCO-1234)' })
+      );
+    });
+
+    /**
+     * Test merge and bot commit exemptions
+     */
+    it('should exempt merge commits and bot commits by default', async () => {
+      mockPaginate.mockResolvedValue([
+        createCommit("Merge branch 'master' into feature", { parents: 2 }),
+        createCommit('chore(deps): bump vitest', { authorLogin: 'dependabot[bot]' }),
+        createCommit('chore: release', { authorLogin: faker.internet.username(), authorType: 'Bot' }),
+      ]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test disabling the exemptions
+     */
+    it('should enforce merge and bot commits when exemptions are disabled', async () => {
+      mockPaginate.mockResolvedValue([
+        createCommit("Merge branch 'master' into feature", { parents: 2 }),
+        createCommit('chore(deps): bump vitest', { authorLogin: 'dependabot[bot]' }),
+      ]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'true', exemptMergeCommits: 'false', exemptBotCommits: 'false' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'failure', description: '2 of 2 commits do not reference a Jira issue (format: MAPCO-1234)' })
+      );
+    });
+  });
+
+  describe('Modes', () => {
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that unknown modes are rejected
+     */
+    it('should fail when mode has an unknown value', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'audit' }));
+
+      await run();
+
+      expectInputError('mode', 'mode must be one of: enforce, warn, off');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that the action does nothing when turned off
+     */
+    it('should skip everything when mode is off', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'off' }));
+
+      await run();
+
+      expect(vi.mocked(core.info)).toHaveBeenCalledWith('Jira integration is turned off (mode: off), skipping');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that failures are reported as warnings in warn mode
+     */
+    it('should report failed validation as a successful status with a warning in warn mode', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'warn' }));
+
+      await run();
+
+      const description = 'Jira issue required in PR title (format: MAPCO-1234)';
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success', description: `Warning: ${description}` }));
+      expect(mockWarning).toHaveBeenCalledWith(description, { title: 'Jira issue validation' });
+      expect(mockSummaryAddTable).toHaveBeenCalledWith(expect.arrayContaining([['Jira issue referenced', '❌ Failed', description]]));
+      expect(mockCreateComment).not.toHaveBeenCalled();
+      expect(mockSetFailed).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that passing validation is unaffected by warn mode
+     */
+    it('should report passing validation unchanged in warn mode', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'warn' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success', description: 'Jira issue found in PR title' }));
+      expect(mockWarning).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test the reminder comment in warn mode
+     */
+    it('should post a reminder comment in warn mode when warn-comment is enabled', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'warn', warnComment: 'true' }));
+
+      await run();
+
+      expect(mockCreateComment).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        issue_number: testData.prNumber,
+        body:
+          '⚠️ **Jira issue validation**: Jira issue required in PR title (format: MAPCO-1234). ' +
+          'This check is advisory for now and will be enforced later.\n<!-- jira-integration:pr-link -->',
+      });
+    });
+
+    /**
+     * Test that the reminder comment is updated instead of duplicated
+     */
+    it('should update the existing reminder comment in warn mode', async () => {
+      const existingCommentId = faker.number.int({ min: 1, max: 100000 });
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockListComments.mockResolvedValue({
+        data: [{ id: existingCommentId, user: { login: 'github-actions[bot]' }, body: '⚠️ reminder\n<!-- jira-integration:pr-link -->' }],
+      });
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'warn', warnComment: 'true' }));
+
+      await run();
+
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId }));
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that check run annotations are warnings in warn mode
+     */
+    it('should create warning annotations on the check run in warn mode', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ mode: 'warn', reportAs: 'check-run' }));
+
+      await run();
+
+      expect(mockCreateCheckRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conclusion: 'success',
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          output: expect.objectContaining({ annotations: [expect.objectContaining({ annotation_level: 'warning' })] }) as unknown,
+        })
+      );
+    });
+  });
+
+  describe('Status Descriptions', () => {
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that unknown failure states are rejected
+     */
+    it('should fail when failure-state has an unknown value', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ failureState: 'pending' }));
+
+      await run();
+
+      expectInputError('failure-state', 'failure-state must be one of: error, failure');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test a custom status context and failure state
+     */
+    it('should use the configured status context and failure state', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ statusContext: 'ci/jira', failureState: 'failure' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ context: 'ci/jira', state: 'failure' }));
+    });
+
+    /**
+     * Test that the check run is named after the configured status context
+     */
+    it('should name the check run after the configured status context', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ statusContext: 'ci/jira', reportAs: 'check-run' }));
+
+      await run();
+
+      expect(mockCreateCheckRun).toHaveBeenCalledWith(expect.objectContaining({ name: 'ci/jira' }));
+    });
+
+    /**
+     * Test deriving the example key from the configured pattern
+     */
+    it.each([
+      ['PROJ-[0-9]+', 'PROJ-1234'],
+      ['\\b(?:ABC|DEF)-\\d{3,}', 'ABC-1234'],
+      ['^[A-Z]+-\\d+$', 'ABC-1234'],
+      ['(?<project>[A-Z]{2,})-\\d+', '(?<project>[A-Z]{2,})-\\d+'],
+    ])('should derive the example from the pattern %s', async (jiraIssuePattern, example) => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'error', description: `Jira issue required in PR title (format: ${example})` })
+      );
+    });
+
+    /**
+     * Test a custom failure description
+     */
+    it('should render the failure description template', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ failureDescription: 'Add e.g. {{example}} to the {{sources}} ({{pattern}})' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ description: `Add e.g. MAPCO-1234 to the PR title (${testData.jiraPattern})` })
+      );
+    });
+
+    /**
+     * Test a custom success description
+     */
+    it('should render the success description template', async () => {
+      const firstIssue = `MAPCO-${faker.number.int({ min: 1000, max: 4999 })}`;
+      const secondIssue = `MAPCO-${faker.number.int({ min: 5000, max: 9999 })}`;
+      setupGitHubContext({ prTitleWithJira: `feat: ${firstIssue} ${secondIssue}` });
+      mockGetInput.mockImplementation(createMockGetInput({ successDescription: '{{count}} linked from {{source}}: {{keys}} (main: {{key}})' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: `2 linked from PR title: ${firstIssue}, ${secondIssue} (main: ${firstIssue})` })
+      );
+    });
+
+    /**
+     * Test a custom bypass description
+     */
+    it('should render the bypass description template', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: testData.bypassUser, bypassDescription: 'Skipped: {{reason}}' }));
+      github.context.payload.pull_request!.user = { login: testData.bypassUser };
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', description: 'Skipped: Bypassed validation for user' })
+      );
+    });
+  });
+
+  describe('Check Runs', () => {
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that unknown report modes are rejected
+     */
+    it('should fail when report-as has an unknown value', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ reportAs: 'annotation' }));
+
+      await run();
+
+      expectInputError('report-as', 'report-as must be one of: status, check-run');
+      expect(mockCreateCheckRun).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test reporting a successful validation as a check run
+     */
+    it('should create a successful check run instead of a commit status', async () => {
+      const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+      const jiraUrl = `${testData.jiraBaseUrl}/browse/${extractedJiraIssue}`;
+      mockGetInput.mockImplementation(createMockGetInput({ reportAs: 'check-run' }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      expect(mockCreateCheckRun).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        name: 'jira/issue-validation',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        head_sha: testData.prSha,
+        status: 'completed',
+        conclusion: 'success',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        details_url: jiraUrl,
+        output: {
+          title: 'Jira issue found in PR title',
+          summary: `**Jira issue found in PR title**\n\nJira issue: ${jiraUrl}`,
+          annotations: [],
+        },
+      });
+    });
+
+    /**
+     * Test reporting a failed validation as a check run with annotations
+     */
+    it('should create a failed check run explaining how to fix every failure', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockPaginate.mockResolvedValue([{ sha: faker.git.commitSha(), commit: { message: 'chore: update deps' }, parents: [], author: null }]);
+      mockGetInput.mockImplementation(createMockGetInput({ reportAs: 'check-run', requireJiraInCommits: 'true' }));
+
+      await run();
+
+      const missingIssueDescription = 'Jira issue required in PR title (format: MAPCO-1234)';
+      expect(mockCreateCheckRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conclusion: 'failure',
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          details_url: undefined,
+          output: {
+            title: missingIssueDescription,
+            summary: expect.stringContaining('### How to fix') as unknown,
+            annotations: [
+              expect.objectContaining({
+                path: '.github',
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                annotation_level: 'failure',
+                title: 'Jira issue referenced',
+                message: expect.stringContaining(missingIssueDescription) as unknown,
+              }),
+              expect.objectContaining({ title: 'Every commit references a Jira issue' }),
+            ],
+          },
+        })
+      );
+    });
+
+    /**
+     * Test reporting a bypassed validation as a check run
+     */
+    it('should create a successful check run when validation is bypassed', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ reportAs: 'check-run', bypassUsers: testData.bypassUser }));
+      github.context.payload.pull_request!.user = { login: testData.bypassUser };
+
+      await run();
+
+      expect(mockCreateCheckRun).toHaveBeenCalledWith(
+        expect.objectContaining({ conclusion: 'success', output: expect.objectContaining({ title: 'Bypassed validation for user' }) as unknown })
+      );
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Stale Comments', () => {
+    const staleIssue = `MAPCO-${faker.number.int({ min: 1, max: 999 })}`;
+    const staleComment = {
+      id: faker.number.int({ min: 1, max: 100000 }),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      node_id: `IC_${faker.string.alphanumeric(16)}`,
+      user: { login: 'github-actions[bot]' },
+      body: `🎫 **Related Jira Issue**: [${staleIssue}](https://mapcolonies.atlassian.net/browse/${staleIssue})\n<!-- jira-integration:pr-link -->`,
+    };
+
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [staleComment] });
+    });
+
+    /**
+     * Test that unknown stale comment modes are rejected
+     */
+    it('should fail when stale-comment has an unknown value', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'archive' }));
+
+      await run();
+
+      expectInputError('stale-comment', 'stale-comment must be one of: keep, update, delete, minimize');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that stale comments are kept by default
+     */
+    it('should leave the comment alone by default when the Jira issue is removed', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockListComments).not.toHaveBeenCalled();
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+      expect(mockDeleteComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test rewriting the comment when the Jira issue is removed
+     */
+    it('should rewrite the comment when the Jira issue is removed and stale-comment is update', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'update' }));
+
+      await run();
+
+      expect(mockUpdateComment).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        comment_id: staleComment.id,
+        body: '🎫 **Related Jira Issue**: none, this pull request no longer references a valid Jira issue\n<!-- jira-integration:pr-link -->',
+      });
+    });
+
+    /**
+     * Test that nothing happens when there is no comment to handle
+     */
+    it('should not post a comment when the Jira issue is removed and no comment exists', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockListComments.mockResolvedValue({ data: [] });
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'update' }));
+
+      await run();
+
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test deleting the comment when the Jira issue is removed
+     */
+    it('should delete the comment when the Jira issue is removed and stale-comment is delete', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'delete' }));
+
+      await run();
+
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      expect(mockDeleteComment).toHaveBeenCalledWith({ owner: testData.owner, repo: testData.repo, comment_id: staleComment.id });
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test minimizing the comment when the Jira issue is removed
+     */
+    it('should minimize the comment and drop its marker when the Jira issue is removed and stale-comment is minimize', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'minimize' }));
+
+      await run();
+
+      expect(mockGraphql).toHaveBeenCalledWith(expect.stringContaining('minimizeComment'), { subjectId: staleComment.node_id });
+      expect(mockUpdateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          comment_id: staleComment.id,
+          body: expect.not.stringContaining('<!-- jira-integration:pr-link -->') as unknown,
+        })
+      );
+      expect(mockUpdateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ body: expect.stringContaining('<!-- jira-integration:outdated -->') as unknown })
+      );
+    });
+
+    /**
+     * Test replacing the comment when the detected Jira issue changes
+     */
+    it('should delete the comment and post a new one when the Jira issue changes and stale-comment is delete', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'delete' }));
+
+      await run();
+
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      expect(mockDeleteComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: staleComment.id }));
+      expect(mockCreateComment).toHaveBeenCalled();
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that a comment about the same Jira issue is updated in place
+     */
+    it('should update the comment in place when the Jira issue is unchanged and stale-comment is minimize', async () => {
+      setupGitHubContext({ prTitleWithJira: `feat: ${staleIssue} change` });
+      mockGetInput.mockImplementation(createMockGetInput({ staleComment: 'minimize' }));
+
+      await run();
+
+      expect(mockGraphql).not.toHaveBeenCalled();
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: staleComment.id }));
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that minimized comments are not picked up again as legacy comments
+     */
+    it('should post a new comment instead of reusing a minimized one', async () => {
+      mockListComments.mockResolvedValue({
+        data: [{ ...staleComment, body: `🎫 **Related Jira Issue**: [${staleIssue}](url)\n<!-- jira-integration:outdated -->` }],
+      });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockUpdateComment).not.toHaveBeenCalled();
+      expect(mockCreateComment).toHaveBeenCalled();
+    });
+  });
+
+  describe('Job Summary', () => {
+    /**
+     * Builds the pull request row of the summary overview table
+     */
+    const createPullRequestRow = (title: string) => [
+      { data: 'Pull request', header: true },
+      `<a href="https://github.com/${testData.owner}/${testData.repo}/pull/${testData.prNumber}">${testData.owner}/${testData.repo}#${testData.prNumber}</a>: ${title}`,
+    ];
+
+    beforeEach(() => {
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test the summary of a successful validation
+     */
+    it('should report the pull request, linked issues and passed rules', async () => {
+      const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockSummaryAddHeading).toHaveBeenCalledWith('Jira issue validation', 2);
+      expect(mockSummaryAddTable).toHaveBeenCalledWith([
+        createPullRequestRow(testData.prTitleWithJira),
+        [
+          { data: 'Jira issues', header: true },
+          `<a href="${testData.jiraBaseUrl}/browse/${extractedJiraIssue}">${extractedJiraIssue}</a> (from PR title)`,
+        ],
+        [{ data: 'Bypassed', header: true }, 'No'],
+        [{ data: 'Result', header: true }, 'success: Jira issue found in PR title'],
+      ]);
+      expect(mockSummaryAddTable).toHaveBeenCalledWith([
+        [
+          { data: 'Rule', header: true },
+          { data: 'Result', header: true },
+          { data: 'Details', header: true },
+        ],
+        ['Jira issue referenced', '✅ Passed', ''],
+      ]);
+      expect(mockSummaryWrite).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test the summary of a failed validation
+     */
+    it('should report failed rules when validation fails', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockPaginate.mockResolvedValue([{ sha: faker.git.commitSha(), commit: { message: 'chore: update deps' }, parents: [], author: null }]);
+      mockGetInput.mockImplementation(createMockGetInput({ requireJiraInCommits: 'true' }));
+
+      await run();
+
+      expect(mockSummaryAddTable).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          [{ data: 'Jira issues', header: true }, 'None found'],
+          [{ data: 'Result', header: true }, 'error: Jira issue required in PR title (format: MAPCO-1234)'],
+        ])
+      );
+      expect(mockSummaryAddTable).toHaveBeenCalledWith([
+        [
+          { data: 'Rule', header: true },
+          { data: 'Result', header: true },
+          { data: 'Details', header: true },
+        ],
+        ['Jira issue referenced', '❌ Failed', 'Jira issue required in PR title (format: MAPCO-1234)'],
+        ['Every commit references a Jira issue', '❌ Failed', '1 of 1 commits do not reference a Jira issue (format: MAPCO-1234)'],
+      ]);
+      expect(mockSummaryAddHeading).toHaveBeenCalledWith('Commits without a Jira issue', 3);
+      expect(mockSummaryWrite).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test the summary of a bypassed validation
+     */
+    it('should report the bypass reason when validation is bypassed', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: testData.bypassUser }));
+      github.context.payload.pull_request!.user = { login: testData.bypassUser };
+
+      await run();
+
+      expect(mockSummaryAddTable).toHaveBeenCalledWith([
+        createPullRequestRow(testData.prTitleWithoutJira),
+        [{ data: 'Jira issues', header: true }, 'None found'],
+        [{ data: 'Bypassed', header: true }, 'Yes, Bypassed validation for user'],
+      ]);
+      expect(mockSummaryAddHeading).not.toHaveBeenCalledWith('Rules', 3);
+      expect(mockSummaryWrite).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Jira API Validation', () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    const jiraCredentials = { jiraEmail: faker.internet.email(), jiraApiToken: faker.string.alphanumeric(24) };
+
+    /**
+     * Builds a Jira REST API issue response
+     */
+    const createJiraIssueResponse = (key: string, status = 'In Progress', issueType = 'Story'): Response =>
+      new Response(
+        JSON.stringify({
+          key,
+          fields: { summary: faker.lorem.sentence(), status: { name: status }, issuetype: { name: issueType }, assignee: null },
+        }),
+        { status: 200 }
+      );
+
+    beforeEach(() => {
+      mockFetch = vi.fn();
+      vi.stubGlobal('fetch', mockFetch);
+      mockListComments.mockResolvedValue({ data: [] });
+    });
+
+    /**
+     * Test that only one of the Jira credentials is rejected
+     */
+    it('should fail when only one of the Jira credentials is provided', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ jiraEmail: jiraCredentials.jiraEmail }));
+
+      await run();
+
+      expectInputError('jira-api-token', 'Both jira-email and jira-api-token are required to validate issues through the Jira API');
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that the Jira API is not called without credentials
+     */
+    it('should not call the Jira API when no Jira credentials are provided', async () => {
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+    });
+
+    /**
+     * Test successful validation of an existing issue
+     */
+    it('should set success status and comment when the Jira issue exists', async () => {
+      const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+      mockGetInput.mockImplementation(createMockGetInput(jiraCredentials));
+      mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue));
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${testData.jiraBaseUrl}/rest/api/2/issue/${extractedJiraIssue}?fields=summary,status,issuetype,assignee`,
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        sha: testData.prSha,
+        state: 'success',
+        target_url: `${testData.jiraBaseUrl}/browse/${extractedJiraIssue}`,
+        description: 'Jira issue found in PR title',
+        context: 'jira/issue-validation',
+      });
+      expect(mockCreateComment).toHaveBeenCalled();
+    });
+
+    /**
+     * Test failed validation of a missing issue
+     */
+    it('should set error status without comment when the Jira issue does not exist', async () => {
+      const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+      mockGetInput.mockImplementation(createMockGetInput(jiraCredentials));
+      mockFetch.mockResolvedValue(new Response(JSON.stringify({ errorMessages: ['Issue does not exist'] }), { status: 404 }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith({
+        owner: testData.owner,
+        repo: testData.repo,
+        sha: testData.prSha,
+        state: 'error',
+        target_url: undefined,
+        description: `Jira issue ${extractedJiraIssue} does not exist or is not accessible`,
+        context: 'jira/issue-validation',
+      });
+      expect(mockCreateComment).not.toHaveBeenCalled();
+      expect(mockWarning).toHaveBeenCalledWith(`Jira issue ${extractedJiraIssue} was not found`);
+    });
+
+    /**
+     * Test that every detected issue is verified
+     */
+    it('should set error status when any of multiple Jira issues does not exist', async () => {
+      const existingIssue = `MAPCO-${faker.number.int({ min: 1000, max: 4999 })}`;
+      const missingIssue = `MAPCO-${faker.number.int({ min: 5000, max: 9999 })}`;
+      setupGitHubContext({ prTitleWithJira: `feat: ${existingIssue}, ${missingIssue} - ${faker.lorem.words(3)}` });
+      mockGetInput.mockImplementation(createMockGetInput(jiraCredentials));
+      mockFetch.mockImplementation((url: string) =>
+        url.includes(existingIssue) ? createJiraIssueResponse(existingIssue) : new Response(JSON.stringify({}), { status: 404 })
+      );
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'error', description: `Jira issue ${missingIssue} does not exist or is not accessible` })
+      );
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test Jira API failures
+     */
+    it('should report an error status and fail the action when Jira rejects the credentials', async () => {
+      mockGetInput.mockImplementation(createMockGetInput(jiraCredentials));
+      mockFetch.mockResolvedValue(new Response(null, { status: 401 }));
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 'error',
+          description: expect.stringMatching(/^Jira rejected the credentials used to verify MAPCO-\d+ \(status 401\)$/) as unknown,
+        })
+      );
+      expect(mockSetFailed).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Jira rejected the credentials used to verify MAPCO-\d+ \(status 401\): Jira API request for MAPCO-\d+ failed with status 401$/
+        )
+      );
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test that network failures are reported on the pull request as well
+     */
+    it('should report an error check run when Jira cannot be reached', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, reportAs: 'check-run' }));
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      await run();
+
+      expect(mockCreateCheckRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conclusion: 'failure',
+          output: expect.objectContaining({
+            title: expect.stringMatching(/^Could not reach Jira to verify MAPCO-\d+ \(network error\)$/) as unknown,
+          }) as unknown,
+        })
+      );
+      expect(mockSetFailed).toHaveBeenCalledWith(expect.stringMatching(/: Jira API request for MAPCO-\d+ failed: fetch failed$/));
+    });
+
+    /**
+     * Test that an unreachable Jira is reported as a warning in warn mode
+     */
+    it('should report an unreachable Jira as a warning without failing the action in warn mode', async () => {
+      mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, mode: 'warn' }));
+      mockFetch.mockResolvedValue(new Response(null, { status: 503 }));
+
+      await run();
+
+      const description = expect.stringMatching(/^Could not reach Jira to verify MAPCO-\d+ \(status 503\)$/) as unknown;
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 'success',
+          description: expect.stringMatching(/^Warning: Could not reach Jira to verify MAPCO-\d+ \(status 503\)$/) as unknown,
+        })
+      );
+      expect(mockWarning).toHaveBeenCalledWith(expect.stringMatching(/failed with status 503$/), { title: 'Jira issue validation' });
+      expect(mockSummaryAddTable).toHaveBeenCalledWith(expect.arrayContaining([['Jira issue exists', '❌ Failed', description]]));
+      expect(mockSetFailed).not.toHaveBeenCalled();
+    });
+
+    describe('Jira Projects', () => {
+      const opsBaseUrl = 'https://ops-team.atlassian.net';
+      const jiraProjects = `- key: MAPCO\n- key: OPS\n  base-url: '${opsBaseUrl}/'\n  allowed-statuses: [In Progress]\n`;
+      let mapcoIssue: string;
+      let opsIssue: string;
+
+      beforeEach(() => {
+        mapcoIssue = `MAPCO-${faker.number.int({ min: 1000, max: 9999 })}`;
+        opsIssue = `OPS-${faker.number.int({ min: 1000, max: 9999 })}`;
+        setupGitHubContext({ prTitleWithJira: `feat: ${opsIssue} ${mapcoIssue} - ${faker.lorem.words(3)}` });
+      });
+
+      /**
+       * Test that issues of every project are detected and linked to the Jira instance of their project
+       */
+      it('should match every listed project and link issues to their own Jira instance', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '', jiraProjects, ...jiraCredentials }));
+        mockFetch.mockImplementation(async (url: string) =>
+          Promise.resolve(url.includes(opsIssue) ? createJiraIssueResponse(opsIssue) : createJiraIssueResponse(mapcoIssue, 'Done'))
+        );
+
+        await run();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          `${opsBaseUrl}/rest/api/2/issue/${opsIssue}?fields=summary,status,issuetype,assignee`,
+          expect.anything()
+        );
+        expect(mockFetch).toHaveBeenCalledWith(
+          `${testData.jiraBaseUrl}/rest/api/2/issue/${mapcoIssue}?fields=summary,status,issuetype,assignee`,
+          expect.anything()
+        );
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', target_url: `${opsBaseUrl}/browse/${opsIssue}` })
+        );
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([opsIssue, mapcoIssue]));
+        expect(mockCreateComment).toHaveBeenCalledWith(
+          expect.objectContaining({ body: expect.stringContaining(`[${mapcoIssue}](${testData.jiraBaseUrl}/browse/${mapcoIssue})`) as unknown })
+        );
+      });
+
+      /**
+       * Test that the issue rules of a project only apply to the issues of that project
+       */
+      it('should apply the issue rules of each project to its own issues', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '', jiraProjects, ...jiraCredentials }));
+        mockFetch.mockResolvedValue(createJiraIssueResponse(opsIssue, 'Done'));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'error', description: `Jira issue ${opsIssue} is "Done", expected one of: In Progress` })
+        );
+      });
+
+      /**
+       * Test that an explicit jira-issue-pattern is used as is
+       */
+      it('should keep an explicit jira-issue-pattern', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraProjects: '- key: MAPCO\n- key: OPS\n' }));
+
+        await run();
+
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([mapcoIssue]));
+      });
+
+      /**
+       * Test that project issue rules require Jira credentials
+       */
+      it('should fail when a project sets issue rules without Jira credentials', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '', jiraProjects }));
+
+        await run();
+
+        expectInputError('jira-email', 'jira-email and jira-api-token are required when allowed-statuses or allowed-issue-types are set');
+      });
+
+      /**
+       * Test that invalid project lists are rejected with the problem they have
+       */
+      it.each([
+        ['MAPCO', 'jira-projects must be a list of projects'],
+        ['- MAPCO', 'jira-projects entry 1 must map fields to values, e.g. key: MAPCO'],
+        [
+          '- key: MAPCO\n- base-url: https://ops-team.atlassian.net',
+          'jira-projects entry 2 must have a Jira project key in upper case, e.g. key: MAPCO',
+        ],
+        ['- key: mapco', 'jira-projects entry 1 must have a Jira project key in upper case, e.g. key: MAPCO'],
+        [
+          '- key: MAPCO\n  url: https://ops-team.atlassian.net',
+          'jira-projects entry 1 contains unknown field "url", expected any of: key, base-url, allowed-statuses, allowed-issue-types',
+        ],
+        ['- key: MAPCO\n  allowed-statuses: 3', 'allowed-statuses of jira-projects entry 1 must be a list of strings or a comma-separated string'],
+        ['- key: MAPCO\n- key: MAPCO', 'jira-projects lists project MAPCO more than once'],
+        ['- key: OPS\n  base-url: ops-team', 'base-url of jira-projects entry 1 must be an http or https URL, got "ops-team"'],
+      ])('should fail when jira-projects is %j', async (invalidProjects, expectedError) => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraIssuePattern: '', jiraProjects: invalidProjects }));
+
+        await run();
+
+        expectInputError('jira-projects', expectedError);
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that jira-projects must be valid YAML
+       */
+      it('should fail when jira-projects is not valid YAML', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraProjects: '- key: [MAPCO' }));
+
+        await run();
+
+        expectInputError('jira-projects', expect.stringMatching(/^jira-projects is not valid YAML: /));
+      });
+    });
+
+    describe('Issue Rules', () => {
+      /**
+       * Test that issue rules require Jira credentials
+       */
+      it('should fail when allowed statuses are set without Jira credentials', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ allowedStatuses: 'In Progress' }));
+
+        await run();
+
+        expectInputError('jira-email', 'jira-email and jira-api-token are required when allowed-statuses or allowed-issue-types are set');
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test an issue in an allowed status and type
+       */
+      it('should set success status when the issue status and type are allowed, ignoring case', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(
+          createMockGetInput({ ...jiraCredentials, allowedStatuses: 'in progress, In Review', allowedIssueTypes: 'story,Bug' })
+        );
+        mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue, 'In Progress', 'Story'));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Jira issue found in PR title' })
+        );
+        expect(mockCreateComment).toHaveBeenCalled();
+      });
+
+      /**
+       * Test an issue in a disallowed status
+       */
+      it('should set error status when the issue status is not allowed', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, allowedStatuses: 'In Progress,In Review' }));
+        mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue, 'Done'));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({
+            state: 'error',
+            target_url: undefined,
+            description: `Jira issue ${extractedJiraIssue} is "Done", expected one of: In Progress, In Review`,
+          })
+        );
+        expect(mockCreateComment).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that rules after a failed rule are reported as skipped
+       */
+      it('should report the rules after a failed rule as skipped in the job summary', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, allowedStatuses: 'In Progress', allowedIssueTypes: 'Story' }));
+        mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue, 'Done'));
+
+        await run();
+
+        expect(mockSummaryAddTable).toHaveBeenCalledWith([
+          [
+            { data: 'Rule', header: true },
+            { data: 'Result', header: true },
+            { data: 'Details', header: true },
+          ],
+          ['Jira issue referenced', '✅ Passed', ''],
+          ['Jira issue exists', '✅ Passed', ''],
+          ['Jira issue status is allowed', '❌ Failed', `Jira issue ${extractedJiraIssue} is "Done", expected one of: In Progress`],
+          ['Jira issue type is allowed', '⏭️ Skipped', 'Not checked after an earlier failure'],
+        ]);
+      });
+
+      /**
+       * Test an issue of a disallowed type
+       */
+      it('should set error status when the issue type is not allowed', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, allowedIssueTypes: 'Story,Bug' }));
+        mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue, 'In Progress', 'Epic'));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'error', description: `Jira issue ${extractedJiraIssue} is a "Epic", expected one of: Story, Bug` })
+        );
+      });
+
+      /**
+       * Test truncation of long status descriptions
+       */
+      it('should truncate status descriptions longer than 140 characters', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        const allowedStatuses = faker.helpers.multiple(() => faker.lorem.words(4), { count: 10 }).join(',');
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, allowedStatuses }));
+        mockFetch.mockResolvedValue(createJiraIssueResponse(extractedJiraIssue, 'Done'));
+
+        await run();
+
+        const [[statusParams]] = mockCreateCommitStatus.mock.calls as [[{ description: string }]];
+        expect(statusParams.description).toHaveLength(140);
+        expect(statusParams.description.endsWith('…')).toBe(true);
+      });
+    });
+
+    describe('Comment Template', () => {
+      const issueDetails = { summary: faker.lorem.sentence(), status: 'In Review', issueType: 'Bug', assignee: faker.person.fullName() };
+
+      /**
+       * Builds a Jira REST API issue response with the fields shown in the comment
+       */
+      const createDetailedIssueResponse = (key: string, assignee: string | null = issueDetails.assignee): Response =>
+        new Response(
+          JSON.stringify({
+            key,
+            fields: {
+              summary: issueDetails.summary,
+              status: { name: issueDetails.status },
+              issuetype: { name: issueDetails.issueType },
+              assignee: assignee === null ? null : { displayName: assignee },
+            },
+          }),
+          { status: 200 }
+        );
+
+      /**
+       * Test that the default comment shows the issue details fetched from Jira
+       */
+      it('should list the issue summary and status in the default comment when Jira credentials are provided', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(createMockGetInput(jiraCredentials));
+        mockFetch.mockResolvedValue(createDetailedIssueResponse(extractedJiraIssue));
+
+        await run();
+
+        expect(mockCreateComment).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: [
+              '🎫 **Related Jira Issue**:',
+              `- [${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue}) - ${issueDetails.summary} (${issueDetails.status})`,
+              `<!-- jira-integration:pr-link keys=${extractedJiraIssue} -->`,
+            ].join('\n'),
+          })
+        );
+      });
+
+      /**
+       * Test rendering every placeholder of the comment template
+       */
+      it('should render the comment template with the issue details fetched from Jira', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(
+          createMockGetInput({
+            ...jiraCredentials,
+            commentTemplate: '[{{key}}]({{url}}) {{ summary }} | {{status}} | {{type}} | {{assignee}}',
+          })
+        );
+        mockFetch.mockResolvedValue(createDetailedIssueResponse(extractedJiraIssue, null));
+
+        await run();
+
+        expect(mockCreateComment).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body:
+              `[${extractedJiraIssue}](${testData.jiraBaseUrl}/browse/${extractedJiraIssue}) ${issueDetails.summary} | ` +
+              `${issueDetails.status} | ${issueDetails.issueType} | Unassigned\n<!-- jira-integration:pr-link keys=${extractedJiraIssue} -->`,
+          })
+        );
+      });
+
+      /**
+       * Test rendering the comment template once per issue without Jira credentials
+       */
+      it('should render the comment template for every issue and leave unknown placeholders untouched', async () => {
+        const firstIssue = `MAPCO-${faker.number.int({ min: 1000, max: 4999 })}`;
+        const secondIssue = `MAPCO-${faker.number.int({ min: 5000, max: 9999 })}`;
+        setupGitHubContext({ prTitleWithJira: `feat: ${firstIssue} ${secondIssue}` });
+        mockGetInput.mockImplementation(createMockGetInput({ commentTemplate: '{{key}}: {{summary}}{{unknown}}' }));
+
+        await run();
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(mockCreateComment).toHaveBeenCalledWith(
+          expect.objectContaining({
+            body: `${firstIssue}: {{unknown}}\n${secondIssue}: {{unknown}}\n<!-- jira-integration:pr-link keys=${firstIssue},${secondIssue} -->`,
+          })
+        );
+      });
+
+      /**
+       * Test that templated comments are found again through the hidden marker
+       */
+      it('should update a templated comment identified by the hidden marker', async () => {
+        const existingCommentId = faker.number.int({ min: 1, max: 100000 });
+        mockListComments.mockResolvedValue({
+          data: [{ id: existingCommentId, user: { login: 'github-actions[bot]' }, body: 'MAPCO-1\n<!-- jira-integration:pr-link -->' }],
+        });
+        mockGetInput.mockImplementation(createMockGetInput({ commentTemplate: 'Tracked in {{key}}' }));
+
+        await run();
+
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId }));
+        expect(mockCreateComment).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that keys mentioned in an issue summary do not make the comment look stale
+       */
+      it('should keep the comment when the issue summary mentions another Jira issue', async () => {
+        const existingCommentId = faker.number.int({ min: 1, max: 100000 });
+        setupGitHubContext({ prTitleWithJira: 'feat: MAPCO-12 add search' });
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, staleComment: 'delete' }));
+        mockFetch.mockImplementation(
+          () =>
+            new Response(
+              JSON.stringify({
+                key: 'MAPCO-12',
+                fields: { summary: 'Follow-up to MAPCO-7', status: { name: 'In Progress' }, issuetype: { name: 'Story' }, assignee: null },
+              }),
+              { status: 200 }
+            )
+        );
+
+        await run();
+
+        const [[{ body }]] = mockCreateComment.mock.calls as [[{ body: string }]];
+        expect(body).toContain('<!-- jira-integration:pr-link keys=MAPCO-12 -->');
+        mockCreateComment.mockClear();
+        mockListComments.mockResolvedValue({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          data: [{ id: existingCommentId, node_id: 'IC_existing', user: { login: 'github-actions[bot]' }, body }],
+        });
+
+        await run();
+
+        expect(mockDeleteComment).not.toHaveBeenCalled();
+        expect(mockCreateComment).not.toHaveBeenCalled();
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId, body }));
+      });
+    });
+
+    describe('Issue Transitions', () => {
+      const transitions = [
+        { id: '21', name: 'Start Review', to: { name: 'In Review' } },
+        { id: '31', name: 'Complete', to: { name: 'Done' } },
+      ];
+
+      let extractedJiraIssue: string;
+
+      /**
+       * Routes Jira API requests to issue and transition responses
+       */
+      const mockJiraApi = (): void => {
+        mockFetch.mockImplementation((url: string, init: RequestInit) => {
+          if (url.endsWith('/transitions') && init.method === 'POST') {
+            return new Response(null, { status: 204 });
+          }
+          if (url.endsWith('/transitions')) {
+            return new Response(JSON.stringify({ transitions }), { status: 200 });
+          }
+          return createJiraIssueResponse(extractedJiraIssue);
+        });
+      };
+
+      /**
+       * Returns the body of the transition request sent to Jira, if any
+       */
+      const getTransitionRequestBody = (): unknown => {
+        const transitionCall = mockFetch.mock.calls.find(([, init]) => (init as RequestInit).method === 'POST') as [string, RequestInit] | undefined;
+        return transitionCall === undefined ? undefined : JSON.parse(transitionCall[1].body as string);
+      };
+
+      beforeEach(() => {
+        extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockJiraApi();
+      });
+
+      /**
+       * Test that transitions require Jira credentials
+       */
+      it('should fail when transitions are configured without Jira credentials', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ transitionOnMerged: 'Done' }));
+
+        await run();
+
+        expectInputError('jira-email', 'jira-email and jira-api-token are required when Jira transitions are configured');
+      });
+
+      /**
+       * Test transition by name when a pull request is opened
+       */
+      it('should transition the issue by transition name when a pull request is opened', async () => {
+        github.context.payload.action = 'opened';
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnOpened: 'start review' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'success' }));
+        expect(mockFetch).toHaveBeenCalledWith(
+          `${testData.jiraBaseUrl}/rest/api/2/issue/${extractedJiraIssue}/transitions`,
+          expect.objectContaining({ method: 'POST' })
+        );
+        expect(getTransitionRequestBody()).toEqual({ transition: { id: '21' } });
+      });
+
+      /**
+       * Test that draft pull requests are not transitioned when opened
+       */
+      it('should not transition the issue when a draft pull request is opened', async () => {
+        github.context.payload.action = 'opened';
+        github.context.payload.pull_request!.draft = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnOpened: 'In Review' }));
+
+        await run();
+
+        expect(getTransitionRequestBody()).toBeUndefined();
+      });
+
+      /**
+       * Test transition by target status when a draft is marked ready for review
+       */
+      it('should transition the issue by target status when a pull request is ready for review', async () => {
+        github.context.payload.action = 'ready_for_review';
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnReadyForReview: 'In Review' }));
+
+        await run();
+
+        expect(getTransitionRequestBody()).toEqual({ transition: { id: '21' } });
+      });
+
+      /**
+       * Test that invalid issues are not transitioned
+       */
+      it('should not transition the issue when validation fails', async () => {
+        github.context.payload.action = 'opened';
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, allowedStatuses: 'Backlog', transitionOnOpened: 'In Review' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+        expect(getTransitionRequestBody()).toBeUndefined();
+      });
+
+      /**
+       * Test transition when a pull request is merged
+       */
+      it('should transition the issue without validation when a pull request is merged', async () => {
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnMerged: 'Done' }));
+
+        await run();
+
+        expect(getTransitionRequestBody()).toEqual({ transition: { id: '31' } });
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+        expect(mockCreateComment).not.toHaveBeenCalled();
+        expect(mockSetFailed).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that pull requests closed without merging are ignored
+       */
+      it('should do nothing when a pull request is closed without merging', async () => {
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = false;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnMerged: 'Done' }));
+
+        await run();
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test merged pull requests without a Jira issue
+       */
+      it('should not transition anything when a merged pull request has no Jira issue', async () => {
+        setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnMerged: 'Done' }));
+
+        await run();
+
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test unavailable transitions
+       */
+      it('should warn when no matching transition is available', async () => {
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnMerged: 'Released' }));
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(`No transition to "Released" is available for Jira issue ${extractedJiraIssue}`);
+        expect(getTransitionRequestBody()).toBeUndefined();
+      });
+
+      /**
+       * Test events without a configured transition
+       */
+      it('should not call the transitions API when no transition is configured for the event', async () => {
+        github.context.payload.action = 'synchronize';
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, transitionOnOpened: 'In Review' }));
+
+        await run();
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('Jira Back-links', () => {
+      let extractedJiraIssue: string;
+      let prUrl: string;
+      let existingJiraComments: { id: string; body: string }[];
+
+      /**
+       * Routes Jira API requests to issue, remote link and comment responses
+       */
+      const mockJiraApi = (): void => {
+        mockFetch.mockImplementation((url: string, init: RequestInit) => {
+          if (url.includes('/comment?')) {
+            return new Response(JSON.stringify({ startAt: 0, total: existingJiraComments.length, comments: existingJiraComments }), { status: 200 });
+          }
+          if (url.endsWith('/remotelink') || url.includes('/comment')) {
+            return new Response(JSON.stringify({}), { status: init.method === 'PUT' ? 200 : 201 });
+          }
+          return createJiraIssueResponse(extractedJiraIssue);
+        });
+      };
+
+      /**
+       * Returns the parsed body of the first Jira request sent with the given method to a URL ending with the given path
+       */
+      const getJiraRequestBody = (method: string, path: string): unknown => {
+        const call = mockFetch.mock.calls.find(([url, init]) => (url as string).endsWith(path) && (init as RequestInit).method === method) as
+          | [string, RequestInit]
+          | undefined;
+        return call === undefined ? undefined : JSON.parse(call[1].body as string);
+      };
+
+      beforeEach(() => {
+        extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        prUrl = `https://github.com/${testData.owner}/${testData.repo}/pull/${testData.prNumber}`;
+        existingJiraComments = [];
+        mockJiraApi();
+      });
+
+      /**
+       * Test unknown back-link modes
+       */
+      it('should fail when jira-backlink has an unknown value', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'email' }));
+
+        await run();
+
+        expectInputError('jira-backlink', 'jira-backlink must be one of: none, remote-link, comment');
+      });
+
+      /**
+       * Test that back-links require Jira credentials
+       */
+      it('should fail when jira-backlink is enabled without Jira credentials', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ jiraBacklink: 'remote-link' }));
+
+        await run();
+
+        expectInputError('jira-email', 'jira-email and jira-api-token are required when jira-backlink is enabled');
+      });
+
+      /**
+       * Test remote link creation for open pull requests
+       */
+      it('should create a remote link to the pull request on the Jira issue', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'remote-link' }));
+
+        await run();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          `${testData.jiraBaseUrl}/rest/api/2/issue/${extractedJiraIssue}/remotelink`,
+          expect.objectContaining({ method: 'POST' })
+        );
+        expect(getJiraRequestBody('POST', '/remotelink')).toEqual({
+          globalId: prUrl,
+          object: {
+            url: prUrl,
+            title: `PR #${testData.prNumber}: ${testData.prTitleWithJira}`,
+            summary: `${testData.owner}/${testData.repo} pull request (open)`,
+            icon: { url16x16: 'https://github.com/favicon.ico', title: 'GitHub' },
+            status: { resolved: false },
+          },
+        });
+      });
+
+      /**
+       * Test remote link resolution when the pull request is merged
+       */
+      it('should mark the remote link as resolved when the pull request is merged', async () => {
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'remote-link' }));
+
+        await run();
+
+        expect(getJiraRequestBody('POST', '/remotelink')).toMatchObject({
+          globalId: prUrl,
+          object: { summary: `${testData.owner}/${testData.repo} pull request (merged)`, status: { resolved: true } },
+        });
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test remote link update when the pull request is closed without merging
+       */
+      it('should update the remote link when the pull request is closed without merging', async () => {
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = false;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'remote-link', transitionOnMerged: 'Done' }));
+
+        await run();
+
+        expect(getJiraRequestBody('POST', '/remotelink')).toMatchObject({ object: { status: { resolved: true } } });
+        expect(getJiraRequestBody('POST', '/transitions')).toBeUndefined();
+      });
+
+      /**
+       * Test comment creation when no back-link comment exists
+       */
+      it('should create a Jira comment linking to the pull request', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'comment' }));
+
+        await run();
+
+        expect(getJiraRequestBody('POST', '/comment')).toEqual({
+          body: `GitHub pull request [${testData.owner}/${testData.repo}#${testData.prNumber}|${prUrl}] is open: ${testData.prTitleWithJira}`,
+        });
+      });
+
+      /**
+       * Test that link markup in the title does not break the link to the pull request
+       */
+      it('should keep the pull request title outside the Jira link', async () => {
+        const prTitle = 'feat: MAPCO-12 support a|b [beta] filters';
+        setupGitHubContext({ prTitleWithJira: prTitle });
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'comment' }));
+
+        await run();
+
+        expect(getJiraRequestBody('POST', '/comment')).toEqual({
+          body: `GitHub pull request [${testData.owner}/${testData.repo}#${testData.prNumber}|${prUrl}] is open: ${prTitle}`,
+        });
+      });
+
+      /**
+       * Test comment idempotency on synchronize events
+       */
+      it('should not duplicate or rewrite an up-to-date Jira comment', async () => {
+        existingJiraComments = [
+          { id: '10', body: faker.lorem.sentence() },
+          {
+            id: '11',
+            body: `GitHub pull request [${testData.owner}/${testData.repo}#${testData.prNumber}|${prUrl}] is open: ${testData.prTitleWithJira}`,
+          },
+        ];
+        github.context.payload.action = 'synchronize';
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'comment' }));
+
+        await run();
+
+        expect(getJiraRequestBody('POST', '/comment')).toBeUndefined();
+        expect(mockFetch.mock.calls.some(([, init]) => (init as RequestInit).method === 'PUT')).toBe(false);
+      });
+
+      /**
+       * Test comment update with the merge state
+       */
+      it('should update the existing Jira comment with the merge state when the pull request is merged', async () => {
+        existingJiraComments = [
+          {
+            id: '11',
+            body: `GitHub pull request [${testData.owner}/${testData.repo}#${testData.prNumber}|${prUrl}] is open: ${testData.prTitleWithJira}`,
+          },
+        ];
+        github.context.payload.action = 'closed';
+        github.context.payload.pull_request!.merged = true;
+        mockGetInput.mockImplementation(createMockGetInput({ ...jiraCredentials, jiraBacklink: 'comment' }));
+
+        await run();
+
+        expect(getJiraRequestBody('PUT', '/comment/11')).toEqual({
+          body: `GitHub pull request [${testData.owner}/${testData.repo}#${testData.prNumber}|${prUrl}] is merged: ${testData.prTitleWithJira}`,
+        });
+        expect(getJiraRequestBody('POST', '/comment')).toBeUndefined();
+      });
+    });
+  });
+
+  describe('GitHub Context Validation', () => {
+    /**
+     * Test warning when not running on pull request event
+     */
+    it('should warn when not running on pull request event', async () => {
+      Object.defineProperty(github, 'context', {
+        value: {
+          eventName: 'push',
+          repo: {
+            owner: testData.owner,
+            repo: testData.repo,
+          },
+        },
+        writable: true,
+      });
+
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(mockWarning).toHaveBeenCalledWith(
+        'This action is designed to work with pull_request, pull_request_target, merge_group and workflow_dispatch events'
+      );
+      expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
 
+    /**
+     * Test warning for unsupported pull request actions
+     */
+    it('should warn when the pull request action is not supported', async () => {
+      github.context.payload.action = 'assigned';
       mockGetInput.mockImplementation(createMockGetInput());
 
       await run();
 
-      expect(mockWarning).toHaveBeenCalledWith('This action is designed to work with pull request events');
+      expect(mockWarning).toHaveBeenCalledWith('Pull request action "assigned" is not supported by this action');
       expect(mockCreateCommitStatus).not.toHaveBeenCalled();
-      expect(mockCreateComment).not.toHaveBeenCalled();
     });
 
     /**
@@ -333,6 +2981,140 @@ describe('jira-integration Action', () => {
       expect(mockSetFailed).toHaveBeenCalledWith('Pull request payload not found in context');
       expect(mockCreateCommitStatus).not.toHaveBeenCalled();
     });
+
+    describe('Other Events', () => {
+      /**
+       * Replaces the GitHub context with a non pull request event
+       */
+      const setupEventContext = (eventName: string, payload: Record<string, unknown> = {}) => {
+        Object.defineProperty(github, 'context', {
+          value: {
+            eventName,
+            serverUrl: 'https://github.com',
+            repo: { owner: testData.owner, repo: testData.repo },
+            payload,
+          },
+          configurable: true,
+        });
+      };
+
+      beforeEach(() => {
+        mockListComments.mockResolvedValue({ data: [] });
+        mockGetPullRequest.mockResolvedValue({
+          data: {
+            title: testData.prTitleWithJira,
+            head: { sha: testData.prSha, ref: `feature/${faker.lorem.slug(2)}` },
+            base: { ref: 'master' },
+            body: null,
+            user: { login: testData.nonBypassUser },
+            merged: false,
+            draft: false,
+          },
+        });
+      });
+
+      /**
+       * Test that pull_request_target events are read from the payload like pull_request events
+       */
+      it('should validate pull_request_target events from the payload', async () => {
+        Object.defineProperty(github, 'context', { value: { ...github.context, eventName: 'pull_request_target' }, configurable: true });
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        expect(mockGetPullRequest).not.toHaveBeenCalled();
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ sha: testData.prSha, state: 'success' }));
+      });
+
+      /**
+       * Test that merge_group events validate the queued pull request and report on the merge queue commit
+       */
+      it('should validate the queued pull request on merge_group events', async () => {
+        const mergeGroupSha = faker.git.commitSha();
+        setupEventContext('merge_group', {
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          merge_group: { head_sha: mergeGroupSha, head_ref: `refs/heads/gh-readonly-queue/main/pr-${testData.prNumber}-${faker.git.commitSha()}` },
+        });
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        expect(mockGetPullRequest).toHaveBeenCalledWith({ owner: testData.owner, repo: testData.repo, pull_number: testData.prNumber });
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ sha: mergeGroupSha, state: 'success' }));
+        expect(mockCreateComment).toHaveBeenCalledWith(expect.objectContaining({ issue_number: testData.prNumber }));
+      });
+
+      /**
+       * Test that merge_group events fail when the pull request number cannot be read from the ref
+       */
+      it('should fail when the merge group ref does not name a pull request', async () => {
+        const headRef = `refs/heads/${faker.lorem.slug(2)}`;
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        setupEventContext('merge_group', { merge_group: { head_sha: faker.git.commitSha(), head_ref: headRef } });
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith(`Could not determine the pull request number from merge group ref "${headRef}"`);
+        expect(mockGetPullRequest).not.toHaveBeenCalled();
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that merge_group events fail without a merge group payload
+       */
+      it('should fail when the merge group payload is missing', async () => {
+        setupEventContext('merge_group');
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith('Merge group payload not found in context');
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that workflow_dispatch events validate the pull request given in pr-number
+       */
+      it('should validate the pull request from pr-number on workflow_dispatch events', async () => {
+        setupEventContext('workflow_dispatch');
+        mockGetInput.mockImplementation(createMockGetInput({ prNumber: String(testData.prNumber) }));
+
+        await run();
+
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        expect(mockGetPullRequest).toHaveBeenCalledWith({ owner: testData.owner, repo: testData.repo, pull_number: testData.prNumber });
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ sha: testData.prSha, state: 'success' }));
+        expect(mockSetFailed).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that workflow_dispatch events require pr-number
+       */
+      it('should fail on workflow_dispatch events without pr-number', async () => {
+        setupEventContext('workflow_dispatch');
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        expect(mockSetFailed).toHaveBeenCalledWith('pr-number is required for workflow_dispatch events');
+        expect(mockGetPullRequest).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that pr-number must be a pull request number
+       */
+      it('should fail when pr-number is not a pull request number', async () => {
+        setupEventContext('workflow_dispatch');
+        mockGetInput.mockImplementation(createMockGetInput({ prNumber: `#${testData.prNumber}` }));
+
+        await run();
+
+        expectInputError('pr-number', 'pr-number must be a pull request number');
+        expect(mockGetPullRequest).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Error Handling', () => {
@@ -392,6 +3174,80 @@ describe('jira-integration Action', () => {
       });
     });
 
+    /**
+     * Test that every Jira issue in the title is collected
+     */
+    it('should collect every deduplicated Jira issue from the PR title', async () => {
+      const firstIssue = `MAPCO-${faker.number.int({ min: 1000, max: 4999 })}`;
+      const secondIssue = `MAPCO-${faker.number.int({ min: 5000, max: 9999 })}`;
+      const jiraUrl = (jiraIssue: string): string => `${testData.jiraBaseUrl}/browse/${jiraIssue}`;
+
+      setupGitHubContext({ prTitleWithJira: `feat: ${firstIssue} ${secondIssue} - ${faker.lorem.words(3)} (${firstIssue})` });
+      mockGetInput.mockImplementation(createMockGetInput());
+      mockListComments.mockResolvedValue({ data: [] });
+
+      await run();
+
+      expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'success', target_url: jiraUrl(firstIssue), description: '2 Jira issues found in PR title' })
+      );
+      expect(mockCreateComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: `🎫 **Related Jira Issues**: [${firstIssue}](${jiraUrl(firstIssue)}), [${secondIssue}](${jiraUrl(secondIssue)})\n<!-- jira-integration:pr-link keys=${firstIssue},${secondIssue} -->`,
+        })
+      );
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([firstIssue, secondIssue]));
+    });
+
+    /**
+     * Test that an existing multi-issue comment is found and updated
+     */
+    it('should update an existing comment that lists multiple Jira issues', async () => {
+      const existingCommentId = faker.number.int({ min: 100, max: 999 });
+      mockListComments.mockResolvedValue({
+        data: [{ id: existingCommentId, user: { login: 'github-actions[bot]' }, body: '🎫 **Related Jira Issues**: [MAPCO-1](url), [MAPCO-2](url)' }],
+      });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      expect(mockUpdateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: existingCommentId }));
+      expect(mockCreateComment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test the issues output when no issue is found
+     */
+    it('should set empty Jira issue outputs when no Jira issue is found', async () => {
+      setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      mockGetInput.mockImplementation(createMockGetInput());
+
+      await run();
+
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issue', '');
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', '[]');
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-url', '');
+    });
+
+    /**
+     * Test the outputs exposed for downstream steps
+     */
+    it('should expose the first Jira issue and the bypass decision as outputs', async () => {
+      const firstIssue = `MAPCO-${faker.number.int({ min: 1000, max: 4999 })}`;
+      const secondIssue = `MAPCO-${faker.number.int({ min: 5000, max: 9999 })}`;
+      setupGitHubContext({ prTitleWithJira: `feat: ${firstIssue} and ${secondIssue}` });
+      mockGetInput.mockImplementation(createMockGetInput());
+      mockListComments.mockResolvedValue({ data: [] });
+
+      await run();
+
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issue', firstIssue);
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-url', `${testData.jiraBaseUrl}/browse/${firstIssue}`);
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypassed', 'false');
+      expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypass-reason', '');
+    });
+
     /**
      * Test action with default jira pattern when no pattern provided
      */
@@ -465,6 +3321,220 @@ describe('jira-integration Action', () => {
       });
     });
 
+    describe('Bypass Teams, Associations and Bots', () => {
+      beforeEach(() => {
+        setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      });
+
+      /**
+       * Test that bot accounts bypass validation when bypass-bots is enabled
+       */
+      it('should skip Jira validation for bot authors when bypass-bots is enabled', async () => {
+        github.context.payload.pull_request!.user = { login: 'renovate[bot]', type: 'Bot' };
+        mockGetInput.mockImplementation(createMockGetInput({ bypassBots: 'true' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for bot account' })
+        );
+      });
+
+      /**
+       * Test that bot accounts are validated by default
+       */
+      it('should validate bot authors when bypass-bots is not enabled', async () => {
+        github.context.payload.pull_request!.user = { login: 'renovate[bot]', type: 'Bot' };
+        mockGetInput.mockImplementation(createMockGetInput());
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+      });
+
+      /**
+       * Test that authors with a bypass association skip validation
+       */
+      it('should skip Jira validation when the author association is a bypass association', async () => {
+        github.context.payload.pull_request!.author_association = 'OWNER';
+        mockGetInput.mockImplementation(createMockGetInput({ bypassAuthorAssociations: 'OWNER,MEMBER' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for author association OWNER' })
+        );
+      });
+
+      /**
+       * Test that unknown author associations are rejected
+       */
+      it('should fail when bypass-author-associations contains an unknown association', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ bypassAuthorAssociations: 'OWNER,ADMIN' }));
+
+        await run();
+
+        expectInputError(
+          'bypass-author-associations',
+          'bypass-author-associations contains unknown association "ADMIN", expected any of: OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR, FIRST_TIME_CONTRIBUTOR, FIRST_TIMER, MANNEQUIN, NONE'
+        );
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that active members of a bypass team skip validation
+       */
+      it('should skip Jira validation when the author is an active member of a bypass team', async () => {
+        mockGetTeamMembership.mockResolvedValue({ data: { state: 'active' } });
+        mockGetInput.mockImplementation(createMockGetInput({ bypassTeams: 'MapColonies/devops' }));
+
+        await run();
+
+        expect(mockGetTeamMembership).toHaveBeenCalledWith({
+          org: 'MapColonies',
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          team_slug: 'devops',
+          username: testData.nonBypassUser,
+        });
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for team MapColonies/devops' })
+        );
+      });
+
+      /**
+       * Test that non-members and pending members of bypass teams are validated
+       */
+      it('should validate authors that are not active members of any bypass team', async () => {
+        mockGetTeamMembership
+          .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }))
+          .mockResolvedValueOnce({ data: { state: 'pending' } });
+        mockGetInput.mockImplementation(createMockGetInput({ bypassTeams: 'MapColonies/devops,MapColonies/infra' }));
+
+        await run();
+
+        expect(mockGetTeamMembership).toHaveBeenCalledTimes(2);
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+      });
+
+      /**
+       * Test that a team whose membership cannot be read is skipped with a warning
+       */
+      it('should warn and check the next bypass team when team membership cannot be read', async () => {
+        mockGetTeamMembership
+          .mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { status: 403 }))
+          .mockResolvedValueOnce({ data: { state: 'active' } });
+        mockGetInput.mockImplementation(createMockGetInput({ bypassTeams: 'MapColonies/devops,MapColonies/infra' }));
+
+        await run();
+
+        expect(mockWarning).toHaveBeenCalledWith(
+          'Could not check bypass-teams membership in MapColonies/devops, the token needs the read:org scope: Forbidden'
+        );
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for team MapColonies/infra' })
+        );
+        expect(mockSetFailed).not.toHaveBeenCalled();
+      });
+
+      /**
+       * Test that bypass teams must use the org/team-slug format
+       */
+      it('should fail when bypass-teams contains a team without an organization', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ bypassTeams: 'devops' }));
+
+        await run();
+
+        expectInputError('bypass-teams', 'bypass-teams contains "devops", expected teams in the org/team-slug format');
+        expect(mockGetTeamMembership).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Bypass Patterns', () => {
+      beforeEach(() => {
+        setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+      });
+
+      /**
+       * Test glob patterns in bypass-users, where brackets are matched literally
+       */
+      it('should match bypass users against glob patterns', async () => {
+        github.context.payload.pull_request!.user = { login: 'renovate[bot]' };
+        mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: '*[bot]' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for user' })
+        );
+      });
+
+      /**
+       * Test that glob patterns must match the whole username
+       */
+      it('should not bypass users that only partially match a glob pattern', async () => {
+        github.context.payload.pull_request!.user = { login: 'renovatebot' };
+        mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: '*[bot]' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ state: 'error' }));
+      });
+
+      /**
+       * Test regular expression patterns in bypass-labels
+       */
+      it('should match bypass labels against regular expressions', async () => {
+        mockListLabelsOnIssue.mockResolvedValue({ data: [{ name: 'skip-jira-docs' }] });
+        mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: '/^skip-jira/' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation due to label' })
+        );
+      });
+
+      /**
+       * Test that bypass-branches matches the head branch
+       */
+      it('should skip Jira validation when the head branch matches a bypass branch', async () => {
+        const headRef = `release-please--branches--master--components--${faker.lorem.word()}`;
+        github.context.payload.pull_request!.head = { sha: testData.prSha, ref: headRef };
+        mockGetInput.mockImplementation(createMockGetInput({ bypassBranches: 'hotfix/*,release-please--branches--*' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: `Bypassed validation for branch ${headRef}` })
+        );
+      });
+
+      /**
+       * Test that bypass-branches matches the base branch
+       */
+      it('should skip Jira validation when the base branch matches a bypass branch', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ bypassBranches: '/^(master|main)$/' }));
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation for branch master' })
+        );
+      });
+
+      /**
+       * Test that invalid regular expressions are rejected before validation
+       */
+      it('should fail when a bypass pattern is an invalid regular expression', async () => {
+        mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: '/skip-(jira/' }));
+
+        await run();
+
+        expectInputError('bypass-labels', 'bypass-labels contains invalid regular expression /skip-(jira/');
+        expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+      });
+    });
+
     describe('Bypass Users', () => {
       /**
        * Test bypass users functionality - should skip validation when single bypass user is present
@@ -491,6 +3561,25 @@ describe('jira-integration Action', () => {
 
         expect(mockSetFailed).not.toHaveBeenCalled();
         expect(mockCreateComment).not.toHaveBeenCalled();
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypassed', 'true');
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypass-reason', 'Bypassed validation for user');
+      });
+
+      /**
+       * Test that the Jira issue outputs are set for bypassed pull requests as well
+       */
+      it('should expose the referenced Jira issue when validation is bypassed', async () => {
+        const extractedJiraIssue = testData.prTitleWithJira.match(/MAPCO-\d+/)?.[0] as string;
+        mockGetInput.mockImplementation(createMockGetInput({ bypassUsers: testData.bypassUser }));
+        github.context.payload.pull_request!.user = { login: testData.bypassUser };
+
+        await run();
+
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(expect.objectContaining({ description: 'Bypassed validation for user' }));
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issue', extractedJiraIssue);
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issues', JSON.stringify([extractedJiraIssue]));
+        expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-url', `${testData.jiraBaseUrl}/browse/${extractedJiraIssue}`);
+        expect(mockCreateComment).not.toHaveBeenCalled();
       });
 
       /**
@@ -616,6 +3705,98 @@ describe('jira-integration Action', () => {
         expect(mockCreateComment).not.toHaveBeenCalled();
       });
 
+      /**
+       * Test finding a bypass label on a later page without reading further pages
+       */
+      it('should stop reading label pages once a bypass label is found', async () => {
+        const otherLabels = Array.from({ length: 30 }, () => ({ name: faker.lorem.slug(2) }));
+        const getPagesRead = mockPages(otherLabels, [{ name: 'skip-jira' }], otherLabels);
+        setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+        mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: 'skip-jira' }));
+
+        await run();
+
+        expect(mockPaginateIterator).toHaveBeenCalledWith(mockListLabelsOnIssue, {
+          owner: testData.owner,
+          repo: testData.repo,
+          issue_number: testData.prNumber,
+        });
+        expect(getPagesRead()).toBe(2);
+        expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+          expect.objectContaining({ state: 'success', description: 'Bypassed validation due to label' })
+        );
+      });
+
+      describe('Label Events', () => {
+        const bypassLabel = 'no-jira-required';
+
+        /**
+         * Sets up a labeled or unlabeled event for a PR without a Jira issue, with the labels left on the PR afterwards
+         */
+        const setupLabelEvent = (action: string, changedLabel: string, labels: readonly string[]) => {
+          setupGitHubContext({ prTitleWithJira: testData.prTitleWithoutJira });
+          const { payload } = github.context;
+          Object.defineProperty(github, 'context', {
+            value: {
+              ...github.context,
+              payload: {
+                action,
+                label: { name: changedLabel },
+                pull_request: { ...payload.pull_request, labels: labels.map((name) => ({ name })) },
+              },
+            },
+            configurable: true,
+          });
+        };
+
+        /**
+         * Test that adding a bypass label bypasses validation using the labels from the payload
+         */
+        it('should bypass validation when a bypass label is added, without listing labels through the API', async () => {
+          setupLabelEvent('labeled', bypassLabel, ['enhancement', bypassLabel]);
+          mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: bypassLabel }));
+
+          await run();
+
+          expect(mockPaginateIterator).not.toHaveBeenCalled();
+          expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+            expect.objectContaining({ state: 'success', description: 'Bypassed validation due to label' })
+          );
+        });
+
+        /**
+         * Test that removing a bypass label reports the real validation result again
+         */
+        it('should report the validation result when a bypass label is removed', async () => {
+          setupLabelEvent('unlabeled', bypassLabel, ['enhancement']);
+          mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: bypassLabel }));
+
+          await run();
+
+          expect(mockListLabelsOnIssue).not.toHaveBeenCalled();
+          expect(mockCreateCommitStatus).toHaveBeenCalledWith(
+            expect.objectContaining({ state: 'error', description: 'Jira issue required in PR title (format: MAPCO-1234)' })
+          );
+          expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypassed', 'false');
+        });
+
+        /**
+         * Test that changes to other labels leave the previous result in place
+         */
+        it('should skip validation when the changed label is not a bypass label', async () => {
+          setupLabelEvent('labeled', 'enhancement', ['enhancement']);
+          mockGetInput.mockImplementation(createMockGetInput({ bypassLabels: bypassLabel }));
+
+          await run();
+
+          expect(vi.mocked(core.info)).toHaveBeenCalledWith('Label "enhancement" is not a bypass label, skipping');
+          expect(mockCreateCommitStatus).not.toHaveBeenCalled();
+          expect(mockCreateComment).not.toHaveBeenCalled();
+          expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('bypassed', 'false');
+          expect(vi.mocked(core.setOutput)).toHaveBeenCalledWith('jira-issue', '');
+        });
+      });
+
       /**
        * Test bypass labels with whitespace handling in comma-separated list
        */